@@ -1,31 +1,109 @@
 /**
- * Simple API server for CLI agent calls
+ * Simple API server for CLI agent calls and provider proxying
  *
  * Run: npx tsx server/api.ts
  * Then start Vite: npm run dev
+ *
+ * API keys are read from the environment (.env) and never sent to the browser.
  */
 
-import { createServer } from 'http';
-import { spawn, execSync } from 'child_process';
-import path from 'path';
-import fs from 'fs';
+import './env';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { createFileJourneyCache, JOURNEY_CACHE_DIR } from './journeyCache';
+import { CLI_AGENTS_CONFIG, CliAgentError, checkCliInstalled, listCliAgents, runCliAgent } from './cliAgents';
+import { PROVIDER_DECLARATIONS, PROVIDERS_CONFIG, baseUrlNotAllowed, getApiKey, resolveBaseUrl } from './providers';
+import { journeyCacheKey } from '../src/services/journeyCache';
+import { fetchWordJourney, getProvider, listProviders, parseJourneyResponse, requiresKey } from '../src/services/aiProvider';
+import { fetchCognateFanout } from '../src/services/cognates';
+import type { AIProvider } from '../src/types';
 
 const PORT = 3001;
-const CLI_AGENTS_PATH = process.env.CLI_AGENTS_PATH || path.join(process.env.HOME || '~', '.claude/skills/cli-agents');
-
-// CLI agents to check
-const CLI_AGENTS = ['gemini', 'claude', 'codex', 'qwen'] as const;
-
-// Check if a CLI tool is installed
-function checkCliInstalled(name: string): boolean {
-  try {
-    execSync(`which ${name}`, { stdio: 'ignore' });
-    return true;
-  } catch {
-    return false;
+
+const journeyCache = createFileJourneyCache();
+
+// Any registered provider except the offline mock
+const isProxyProvider = (provider: AIProvider) => {
+  const definition = getProvider(provider);
+  return !!definition && definition.category !== 'offline';
+};
+
+const keyProviders = () => listProviders().filter(({ keyEnv }) => keyEnv);
+
+// Extra headers from a request; anything but string values is dropped
+function readHeaders(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  return Object.fromEntries(Object.entries(value).filter(([, header]) => typeof header === 'string'));
+}
+
+// Request bodies are small JSON documents; anything bigger is refused with 413
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`);
   }
 }
 
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      if (size > MAX_BODY_BYTES) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // The rest is drained and dropped so the 413 can still be sent
+        reject(new PayloadTooLargeError());
+        return;
+      }
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+const errorStatus = (error: unknown, fallback: number) => error instanceof PayloadTooLargeError ? 413 : fallback;
+
+// Seconds from a request body (default 60); null unless a positive number
+const readTimeout = (value: unknown) =>
+  value === undefined ? 60 : typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+// Aborted when the client goes away before the response is finished (e.g. a closed tab).
+// Watches the response: the request's own 'close' already fires once its body is read.
+function abortOnDisconnect(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
+
+// CLI agents for one request, stopped if its client disconnects
+const runCliAgentFor = (res: ServerResponse) => {
+  const signal = abortOnDisconnect(res);
+  return (provider: AIProvider, prompt: string, timeout: number, onDelta?: (text: string) => void) =>
+    runCliAgent(provider, prompt, timeout, onDelta, signal);
+};
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+// Server-Sent Events: open the stream once, then write named events
+function startEventStream(res: ServerResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+}
+
+function sendEvent(res: ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 const server = createServer(async (req, res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
@@ -39,9 +117,9 @@ const server = createServer(async (req, res) => {
 
   // Check installed CLI agents
   if (req.method === 'GET' && req.url === '/api/cli-agents/check') {
-    const agents = CLI_AGENTS.map(name => ({
-      name,
-      installed: checkCliInstalled(name)
+    const agents = listCliAgents().map(({ id }) => ({
+      name: id,
+      installed: checkCliInstalled(id)
     }));
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ agents }));
@@ -51,7 +129,11 @@ const server = createServer(async (req, res) => {
   // Proxy Ollama model list
   if (req.method === 'GET' && req.url?.startsWith('/api/ollama/tags')) {
     const urlParams = new URL(req.url, `http://localhost:${PORT}`);
-    const baseUrl = urlParams.searchParams.get('baseUrl') || 'http://localhost:11434';
+    const baseUrl = resolveBaseUrl('ollama', urlParams.searchParams.get('baseUrl'));
+    if (!baseUrl) {
+      sendJson(res, 400, { error: 'Ollama not available', message: baseUrlNotAllowed('ollama'), models: [] });
+      return;
+    }
 
     try {
       const response = await fetch(`${baseUrl}/api/tags`);
@@ -72,76 +154,263 @@ const server = createServer(async (req, res) => {
     return;
   }
 
-  if (req.method === 'POST' && req.url === '/api/cli-agent') {
-    let body = '';
-    req.on('data', chunk => body += chunk);
-    req.on('end', async () => {
-      try {
-        const { model, prompt, timeout = 60 } = JSON.parse(body);
+  // Proxy an OpenAI-compatible server's model list. Only endpoints in OPENAI_COMPATIBLE_BASE_URL
+  // are called, so the key from the environment never goes to a host the request picked
+  if (req.method === 'GET' && req.url?.startsWith('/api/openai-compatible/models')) {
+    const urlParams = new URL(req.url, `http://localhost:${PORT}`);
+    const baseUrl = resolveBaseUrl('openai-compatible', urlParams.searchParams.get('baseUrl'));
+    if (!baseUrl) {
+      sendJson(res, 400, { error: 'OpenAI-compatible server not available', message: baseUrlNotAllowed('openai-compatible'), data: [] });
+      return;
+    }
 
-        console.log(`[${new Date().toISOString()}] Request: model=${model}, timeout=${timeout}`);
+    try {
+      const apiKey = getApiKey('openai-compatible');
+      // With the server's key, the request's own headers are ignored
+      const headers = apiKey
+        ? { 'Authorization': `Bearer ${apiKey}` }
+        : readHeaders(JSON.parse(urlParams.searchParams.get('headers') || '{}'));
+      const response = await fetch(`${baseUrl}/models`, { headers });
+      if (!response.ok) {
+        throw new Error(`${baseUrl} returned ${response.status}`);
+      }
+      sendJson(res, 200, await response.json());
+    } catch (error: any) {
+      sendJson(res, 503, {
+        error: 'OpenAI-compatible server not available',
+        message: error.message,
+        data: []
+      });
+    }
+    return;
+  }
 
-        const cliCallerPath = path.join(CLI_AGENTS_PATH, 'cli_caller.py');
+  // Provider status (whether the server holds a key) - keys themselves stay here -
+  // and the declared providers, which the browser registers too
+  if (req.method === 'GET' && req.url === '/api/providers') {
+    const providers = keyProviders().map(({ id, keyEnv }) => ({
+      id,
+      env: keyEnv,
+      configured: !!getApiKey(id)
+    }));
+    sendJson(res, 200, { providers, declarations: PROVIDER_DECLARATIONS });
+    return;
+  }
 
-        // Use spawn with args array to avoid shell escaping issues
-        const pythonProcess = spawn('python3', [
-          cliCallerPath,
-          '--model', model,
-          '--prompt', prompt,
-          '--timeout', String(timeout)
-        ], {
-          timeout: (timeout + 30) * 1000
-        });
+  // Unified journey endpoint: server-side keys, validation, re-prompting and cache
+  if (req.method === 'POST' && req.url === '/api/journey') {
+    try {
+      const body = JSON.parse(await readBody(req));
+      const { word, provider, model, headers, language, refresh, maxRetries, stream } = body;
+      const timeout = readTimeout(body.timeout);
 
-        let output = '';
-        let errorOutput = '';
+      if (!word || typeof word !== 'string') {
+        sendJson(res, 400, { error: 'Missing "word"' });
+        return;
+      }
+      if (timeout === null) {
+        sendJson(res, 400, { error: '"timeout" must be a positive number of seconds' });
+        return;
+      }
+      if (!isProxyProvider(provider)) {
+        sendJson(res, 400, { error: `Unknown provider "${provider}"` });
+        return;
+      }
 
-        pythonProcess.stdout.on('data', (data) => {
-          output += data.toString();
-        });
+      const apiKey = getApiKey(provider);
+      const definition = getProvider(provider)!;
+      if (requiresKey(definition) && !apiKey) {
+        sendJson(res, 400, { error: `${definition.keyEnv} is not configured on the server` });
+        return;
+      }
 
-        pythonProcess.stderr.on('data', (data) => {
-          errorOutput += data.toString();
-        });
+      // Only endpoints configured on the server are called, whatever the body says
+      const baseUrl = resolveBaseUrl(provider, body.baseUrl);
+      if (baseUrl === null) {
+        sendJson(res, 400, { error: baseUrlNotAllowed(provider) });
+        return;
+      }
 
-        pythonProcess.on('close', (code) => {
-          if (code === 0 || output.length > 0) {
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ output: output || errorOutput }));
-          } else {
-            console.error(`[ERROR] Exit code: ${code}, stderr: ${errorOutput}`);
-            res.writeHead(500, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({
-              error: `Process exited with code ${code}`,
-              output: errorOutput
-            }));
-          }
-        });
+      console.log(`[${new Date().toISOString()}] Journey: word=${word}, provider=${provider}, stream=${!!stream}`);
 
-        pythonProcess.on('error', (err) => {
-          console.error(`[ERROR] ${err.message}`);
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: err.message, output: '' }));
-        });
+      const config = {
+        provider,
+        apiKey,
+        model,
+        baseUrl,
+        // The request's headers never travel with the server's key
+        headers: apiKey ? undefined : readHeaders(headers),
+        timeout,
+        maxRetries,
+        responseLanguage: language,
+        forceRefresh: refresh
+      };
+
+      if (!stream) {
+        sendJson(res, 200, await fetchWordJourney(word, config, { cache: journeyCache, runCLI: runCliAgentFor(res) }));
+        return;
+      }
 
+      // Relay the provider's output as it arrives; the client parses waypoints incrementally
+      startEventStream(res);
+      let currentAttempt = 1;
+      try {
+        const result = await fetchWordJourney(word, config, {
+          cache: journeyCache,
+          runCLI: runCliAgentFor(res),
+          onDelta: (text, attempt) => {
+            if (attempt !== currentAttempt) {
+              currentAttempt = attempt;
+              sendEvent(res, 'attempt', { attempt });
+            }
+            sendEvent(res, 'delta', { text });
+          }
+        });
+        sendEvent(res, 'result', result);
       } catch (error: any) {
         console.error(`[ERROR] ${error.message}`);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          error: error.message,
-          output: ''
-        }));
+        sendEvent(res, 'error', { error: error.message });
       }
-    });
-  } else {
-    res.writeHead(404);
-    res.end('Not found');
+      res.end();
+    } catch (error: any) {
+      console.error(`[ERROR] ${error.message}`);
+      sendJson(res, errorStatus(error, 502), { error: error.message });
+    }
+    return;
+  }
+
+  // Cognate fan-out: where a root ended up across languages
+  if (req.method === 'POST' && req.url === '/api/cognates') {
+    try {
+      const body = JSON.parse(await readBody(req));
+      const { root, sourceLanguage, provider, model, headers, language, maxRetries } = body;
+      const timeout = readTimeout(body.timeout);
+
+      if (!root || typeof root !== 'string' || !sourceLanguage || typeof sourceLanguage !== 'string') {
+        sendJson(res, 400, { error: 'Missing "root" or "sourceLanguage"' });
+        return;
+      }
+      if (timeout === null) {
+        sendJson(res, 400, { error: '"timeout" must be a positive number of seconds' });
+        return;
+      }
+      if (!isProxyProvider(provider)) {
+        sendJson(res, 400, { error: `Unknown provider "${provider}"` });
+        return;
+      }
+
+      const apiKey = getApiKey(provider);
+      const definition = getProvider(provider)!;
+      if (requiresKey(definition) && !apiKey) {
+        sendJson(res, 400, { error: `${definition.keyEnv} is not configured on the server` });
+        return;
+      }
+
+      const baseUrl = resolveBaseUrl(provider, body.baseUrl);
+      if (baseUrl === null) {
+        sendJson(res, 400, { error: baseUrlNotAllowed(provider) });
+        return;
+      }
+
+      console.log(`[${new Date().toISOString()}] Cognates: root=${root}, source=${sourceLanguage}, provider=${provider}`);
+
+      const result = await fetchCognateFanout(
+        root,
+        sourceLanguage,
+        { provider, apiKey, model, baseUrl, headers: apiKey ? undefined : readHeaders(headers), timeout, maxRetries, responseLanguage: language },
+        { runCLI: runCliAgentFor(res) }
+      );
+      sendJson(res, 200, result);
+    } catch (error: any) {
+      console.error(`[ERROR] ${error.message}`);
+      sendJson(res, errorStatus(error, 502), { error: error.message });
+    }
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/api/cli-agent') {
+    try {
+      const body = JSON.parse(await readBody(req));
+      const { model, prompt, word, language, refresh, stream } = body;
+      const timeout = readTimeout(body.timeout);
+      if (timeout === null) {
+        sendJson(res, 400, { error: '"timeout" must be a positive number of seconds', output: '' });
+        return;
+      }
+      const signal = abortOnDisconnect(res);
+
+      console.log(`[${new Date().toISOString()}] Request: model=${model}, timeout=${timeout}`);
+
+      // Callers that send the word get answers from the shared file cache
+      const cacheKey = word ? journeyCacheKey({ word, provider: model, language }) : null;
+      const entry = cacheKey && !refresh ? await journeyCache.get(cacheKey) : null;
+      if (entry) {
+        console.log(`[${new Date().toISOString()}] Cache hit: ${cacheKey}`);
+      }
+
+      const storeInCache = async (output: string) => {
+        if (!cacheKey) return;
+        // Only responses that pass validation are worth keeping
+        let journey;
+        try {
+          ({ journey } = parseJourneyResponse(output));
+        } catch {
+          return;
+        }
+        await journeyCache.set(cacheKey, journey)
+          .catch(error => console.warn('[journey] Failed to write cache:', error));
+      };
+
+      if (stream) {
+        // Relay stdout chunks as Server-Sent Events while the agent runs
+        startEventStream(res);
+        try {
+          const output = entry
+            ? JSON.stringify(entry.journey)
+            : await runCliAgent(model, prompt, timeout, text => sendEvent(res, 'delta', { text }), signal);
+          if (!entry) await storeInCache(output);
+          sendEvent(res, 'done', { output, cached: !!entry });
+        } catch (error: any) {
+          console.error(`[ERROR] ${error.message}`);
+          sendEvent(res, 'error', { error: error.message });
+        }
+        res.end();
+        return;
+      }
+
+      if (entry) {
+        sendJson(res, 200, { output: JSON.stringify(entry.journey), cached: true });
+        return;
+      }
+
+      const output = await runCliAgent(model, prompt, timeout, undefined, signal);
+      await storeInCache(output);
+      sendJson(res, 200, { output });
+    } catch (error: any) {
+      console.error(`[ERROR] ${error.message}`);
+      sendJson(res, errorStatus(error, 500), {
+        error: error.message,
+        output: error instanceof CliAgentError ? error.output : ''
+      });
+    }
+    return;
   }
+
+  res.writeHead(404);
+  res.end('Not found');
 });
 
 server.listen(PORT, () => {
   console.log(`\n🚀 CLI Agent API Server running on http://localhost:${PORT}`);
-  console.log(`   CLI Agents Path: ${CLI_AGENTS_PATH}`);
+  console.log(`   CLI Agents: ${listCliAgents().map(({ id }) => `${id}=${checkCliInstalled(id) ? 'installed' : 'missing'}`).join(', ')} (extra agents: ${CLI_AGENTS_CONFIG})`);
+  console.log(`   Journey Cache: ${JOURNEY_CACHE_DIR}`);
+  console.log(`   Providers: ${listProviders().map(({ id }) => id).join(', ')} (extra providers: ${PROVIDERS_CONFIG})`);
+  console.log(`   API keys: ${keyProviders().map(({ id, keyEnv }) => `${keyEnv}=${getApiKey(id) ? 'set' : 'missing'}`).join(', ')}`);
+  console.log(`\n   POST /api/journey - Trace a word with any provider (keys from env)`);
+  console.log(`   Body: { word: "coffee", provider: "gemini-api", language?: "English", refresh?: false, stream?: false }`);
+  console.log(`\n   POST /api/cognates - Descendants of a root across languages`);
+  console.log(`   Body: { root: "caseus", sourceLanguage: "Latin", provider: "gemini-api", language?: "English" }`);
+  console.log(`\n   GET /api/openai-compatible/models?baseUrl=http://localhost:8080/v1 - Models of an OpenAI-compatible server`);
   console.log(`\n   POST /api/cli-agent - Call AI model via CLI`);
-  console.log(`   Body: { model: "gemini"|"claude"|"codex"|"qwen", prompt: "...", timeout: 60 }\n`);
+  console.log(`   Body: { model: "gemini"|"claude"|"codex"|"qwen", prompt: "...", timeout: 60, word?, language?, refresh?, stream? }\n`);
 });
@@ -0,0 +1,270 @@
+/**
+ * CLI agents (gemini, claude, codex, qwen) run as child processes, shared by
+ * the API server and the etymology CLI. Each binary has an adapter that knows
+ * how to pass it a prompt, read its answer from stdout and stop it on timeout.
+ *
+ * More agents can be added (or the built-in ones changed) without code, in a
+ * JSON file at CLI_AGENTS_CONFIG (default: cli-agents.json in the working
+ * directory):
+ *
+ *   { "agents": [{ "id": "aider", "command": "aider", "args": ["--message", "{prompt}"] }] }
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { accessSync, constants, existsSync, readFileSync } from 'fs';
+import path from 'path';
+
+export interface CliAgentAdapter {
+  id: string;
+  /** Executable, looked up on PATH unless it is a path */
+  command: string;
+  /** Command-line arguments for a prompt (without the prompt when `stdin` is set) */
+  buildArgs: (prompt: string) => string[];
+  /** Write the prompt to stdin instead of passing it as an argument */
+  stdin: boolean;
+  /** Model answer from the process's stdout */
+  parseOutput: (stdout: string) => string;
+  /** Seconds allowed on top of the request's timeout for startup and sign-in */
+  startupSeconds: number;
+  /** Signal sent on timeout; SIGKILL follows if the process outlives killGraceMs */
+  killSignal: NodeJS.Signals;
+  killGraceMs: number;
+}
+
+/** An agent in CLI_AGENTS_CONFIG; "{prompt}" in args is replaced by the prompt. */
+export interface CliAgentConfig {
+  id: string;
+  command: string;
+  args?: string[];
+  stdin?: boolean;
+  startupSeconds?: number;
+  killSignal?: NodeJS.Signals;
+  killGraceMs?: number;
+}
+
+export const CLI_AGENTS_CONFIG = process.env.CLI_AGENTS_CONFIG || path.join(process.cwd(), 'cli-agents.json');
+
+export const CLI_AGENTS = ['gemini', 'claude', 'codex', 'qwen'] as const;
+
+/** Failure of the agent process; `output` holds its stderr */
+export class CliAgentError extends Error {
+  output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = 'CliAgentError';
+    this.output = output;
+  }
+}
+
+// Agents colour their output when they think they're in a terminal
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+
+const DEFAULT_ADAPTER: Omit<CliAgentAdapter, 'id' | 'command' | 'buildArgs'> = {
+  stdin: false,
+  parseOutput: stdout => stripAnsi(stdout).trim(),
+  startupSeconds: 30,
+  killSignal: 'SIGTERM',
+  killGraceMs: 5000
+};
+
+const BUILT_IN_ADAPTERS: CliAgentAdapter[] = [
+  // Gemini CLI and its Qwen fork answer a single prompt with -p and exit
+  { ...DEFAULT_ADAPTER, id: 'gemini', command: 'gemini', buildArgs: prompt => ['-p', prompt] },
+  { ...DEFAULT_ADAPTER, id: 'qwen', command: 'qwen', buildArgs: prompt => ['-p', prompt] },
+  // Claude Code reads the prompt from stdin in print mode
+  { ...DEFAULT_ADAPTER, id: 'claude', command: 'claude', stdin: true, buildArgs: () => ['-p', '--output-format', 'text'] },
+  {
+    ...DEFAULT_ADAPTER,
+    id: 'codex',
+    command: 'codex',
+    stdin: true,
+    // "-" reads the prompt from stdin; the answer is the last message, after any progress lines
+    buildArgs: () => ['exec', '--skip-git-repo-check', '--color', 'never', '-'],
+    parseOutput: stdout => {
+      const text = stripAnsi(stdout).trim();
+      const jsonStart = text.search(/^\{/m);
+      return jsonStart > 0 ? text.slice(jsonStart) : text;
+    }
+  }
+];
+
+export const adapterFromConfig = (config: CliAgentConfig): CliAgentAdapter => {
+  if (!config.id || !config.command) throw new Error('CLI agent config needs "id" and "command"');
+  const args = config.args ?? ['{prompt}'];
+  const stdin = config.stdin ?? !args.some(arg => arg.includes('{prompt}'));
+  return {
+    ...DEFAULT_ADAPTER,
+    ...(config.startupSeconds !== undefined ? { startupSeconds: config.startupSeconds } : {}),
+    ...(config.killSignal ? { killSignal: config.killSignal } : {}),
+    ...(config.killGraceMs !== undefined ? { killGraceMs: config.killGraceMs } : {}),
+    id: config.id,
+    command: config.command,
+    stdin,
+    buildArgs: prompt => args.map(arg => arg.split('{prompt}').join(prompt))
+  };
+};
+
+function loadConfiguredAdapters(file: string): CliAgentAdapter[] {
+  if (!existsSync(file)) return [];
+  try {
+    const { agents } = JSON.parse(readFileSync(file, 'utf-8')) as { agents?: CliAgentConfig[] };
+    return (agents ?? []).map(adapterFromConfig);
+  } catch (error: any) {
+    console.warn(`[cli-agents] Ignoring ${file}: ${error.message}`);
+    return [];
+  }
+}
+
+const registry = new Map<string, CliAgentAdapter>();
+
+/** Adds or replaces an agent by id. */
+export const registerCliAgent = (adapter: CliAgentAdapter) => {
+  registry.set(adapter.id, adapter);
+};
+
+export const getCliAgent = (id: string) => registry.get(id);
+
+export const listCliAgents = () => [...registry.values()];
+
+BUILT_IN_ADAPTERS.forEach(registerCliAgent);
+loadConfiguredAdapters(CLI_AGENTS_CONFIG).forEach(registerCliAgent);
+
+/** Full path of an executable on PATH (or the command itself, if it is a path), null when missing. */
+export function findExecutable(command: string): string | null {
+  const isExecutable = (file: string) => {
+    try {
+      accessSync(file, constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (command.includes('/') || command.includes(path.sep)) {
+    return isExecutable(command) ? command : null;
+  }
+  const extensions = process.platform === 'win32' ? (process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';') : [''];
+  for (const dir of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const file = path.join(dir, command + extension);
+      if (isExecutable(file)) return file;
+    }
+  }
+  return null;
+}
+
+export const checkCliInstalled = (id: string) => {
+  const adapter = getCliAgent(id);
+  return !!adapter && findExecutable(adapter.command) !== null;
+};
+
+// Agents start helper processes of their own, so the whole process group is signalled where possible
+const signalProcess = (child: ChildProcess, signal: NodeJS.Signals) => {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+  try {
+    if (process.platform !== 'win32') {
+      process.kill(-child.pid, signal);
+      return;
+    }
+  } catch {}
+  child.kill(signal);
+};
+
+/**
+ * Runs a prompt through an agent and resolves with its answer; `onData` receives
+ * stdout as it arrives. Aborting `signal` stops the agent like a timeout does.
+ */
+export function runCliAgent(
+  model: string,
+  prompt: string,
+  timeout: number,
+  onData?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const adapter = getCliAgent(model);
+  if (!adapter) {
+    return Promise.reject(new CliAgentError(`Unknown CLI agent "${model}"`, ''));
+  }
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    return Promise.reject(new CliAgentError(`Timeout must be a positive number of seconds, got ${timeout}`, ''));
+  }
+  if (signal?.aborted) {
+    return Promise.reject(new CliAgentError(`${adapter.command} was cancelled`, ''));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(adapter.command, adapter.buildArgs(prompt), {
+      stdio: [adapter.stdin ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+      env: { ...process.env, NO_COLOR: '1' },
+      detached: process.platform !== 'win32'
+    });
+
+    let output = '';
+    let errorOutput = '';
+    let timedOut = false;
+    let cancelled = false;
+    let failedToStart = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const stop = () => {
+      signalProcess(child, adapter.killSignal);
+      killTimer = setTimeout(() => signalProcess(child, 'SIGKILL'), adapter.killGraceMs);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, (timeout + adapter.startupSeconds) * 1000);
+
+    const onAbort = () => {
+      if (timedOut || cancelled) return;
+      cancelled = true;
+      clearTimeout(timer);
+      stop();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout!.on('data', (data) => {
+      const text = data.toString();
+      output += text;
+      onData?.(text);
+    });
+
+    child.stderr!.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+
+    if (adapter.stdin) {
+      // An agent that exits before reading its input is reported by 'close'
+      child.stdin!.on('error', () => {});
+      child.stdin!.end(prompt);
+    }
+
+    child.on('close', (code, exitSignal) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
+      if (failedToStart) return;
+      if (cancelled) {
+        reject(new CliAgentError(`${adapter.command} was cancelled`, errorOutput));
+      } else if (timedOut) {
+        reject(new CliAgentError(`${adapter.command} timed out after ${timeout + adapter.startupSeconds}s`, errorOutput));
+      } else if (code === 0) {
+        resolve(adapter.parseOutput(output));
+      } else {
+        const reason = errorOutput.trim().split('\n').pop() || (exitSignal ? `killed by ${exitSignal}` : `exit code ${code}`);
+        console.error(`[ERROR] ${adapter.command} exited with code ${code}, stderr: ${errorOutput}`);
+        reject(new CliAgentError(`${adapter.command} failed: ${reason}`, errorOutput));
+      }
+    });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      failedToStart = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      const message = err.code === 'ENOENT' ? `${adapter.command} is not installed (not found on PATH)` : err.message;
+      reject(new CliAgentError(message, ''));
+    });
+  });
+}
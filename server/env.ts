@@ -0,0 +1,10 @@
+/**
+ * Loads .env into process.env before any other server module reads it.
+ * Import this first. A missing .env is fine - variables may come from the shell.
+ */
+
+try {
+  process.loadEnvFile();
+} catch (error: any) {
+  if (error?.code !== 'ENOENT') console.warn(`[env] Ignoring .env: ${error?.message ?? error}`);
+}
@@ -0,0 +1,53 @@
+/**
+ * File-backed journey cache for the API server and the CLI.
+ *
+ * One JSON file per cache key under JOURNEY_CACHE_DIR (default: .cache/journeys).
+ * Keys come from journeyCacheKey() so entries are interchangeable with the
+ * browser's IndexedDB cache.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { CachedJourney, JourneyCache } from '../src/types';
+import { createCacheEntry, isCacheEntryFresh, DEFAULT_CACHE_TTL_MS } from '../src/services/journeyCache';
+
+export const JOURNEY_CACHE_DIR = process.env.JOURNEY_CACHE_DIR || path.join(process.cwd(), '.cache', 'journeys');
+
+const ttlDays = Number(process.env.JOURNEY_CACHE_TTL_DAYS);
+
+/** JOURNEY_CACHE_TTL_DAYS when it is a positive number, otherwise the default */
+export const JOURNEY_CACHE_TTL_MS = Number.isFinite(ttlDays) && ttlDays > 0
+  ? ttlDays * 24 * 60 * 60 * 1000
+  : DEFAULT_CACHE_TTL_MS;
+
+export function createFileJourneyCache(dir: string = JOURNEY_CACHE_DIR): JourneyCache {
+  // Keys contain user input, so hash them into safe file names
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry: CachedJourney = JSON.parse(await fs.readFile(fileFor(key), 'utf-8'));
+        if (entry.key !== key) return null;
+        if (!isCacheEntryFresh(entry)) {
+          await fs.rm(fileFor(key), { force: true });
+          return null;
+        }
+        return entry;
+      } catch {
+        return null;
+      }
+    },
+
+    async set(key, journey, ttlMs = JOURNEY_CACHE_TTL_MS) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a concurrent reader never sees a half-written file
+      const target = fileFor(key);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(createCacheEntry(key, journey, ttlMs), null, 2));
+      await fs.rename(tmp, target);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Providers for the API server and the etymology CLI: the built-ins from
+ * aiProvider.ts, one per extra CLI agent (see cliAgents.ts), and any declared
+ * in a JSON file at PROVIDERS_CONFIG (default: providers.json in the working
+ * directory):
+ *
+ *   { "providers": [{ "id": "gpt-4o", "extends": "openai-api", "defaults": { "model": "gpt-4o" } }] }
+ *
+ * The declarations are also served to the browser (GET /api/providers) so the
+ * web app registers the same providers.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { getProvider, registerProvidersFromConfig } from '../src/services/aiProvider';
+import type { ProviderDeclaration } from '../src/services/providerRegistry';
+import type { AIProvider } from '../src/types';
+import { listCliAgents } from './cliAgents';
+
+export const PROVIDERS_CONFIG = process.env.PROVIDERS_CONFIG || path.join(process.cwd(), 'providers.json');
+
+function loadDeclarations(file: string): ProviderDeclaration[] {
+  if (!existsSync(file)) return [];
+  try {
+    const { providers } = JSON.parse(readFileSync(file, 'utf-8')) as { providers?: ProviderDeclaration[] };
+    return providers ?? [];
+  } catch (error: any) {
+    console.warn(`[providers] Ignoring ${file}: ${error.message}`);
+    return [];
+  }
+}
+
+// Every CLI provider runs the agent named by its id, so extra agents reuse the Gemini CLI's implementation
+const cliAgentDeclarations = (): ProviderDeclaration[] =>
+  listCliAgents()
+    .filter(({ id }) => !getProvider(id))
+    .map(({ id }) => ({ id, extends: 'gemini', name: `${id} CLI`, description: 'Custom agent' }));
+
+/** Providers registered on top of the built-ins, in the order they were declared */
+export const PROVIDER_DECLARATIONS: ProviderDeclaration[] = [...cliAgentDeclarations(), ...loadDeclarations(PROVIDERS_CONFIG)]
+  .filter(declaration => registerProvidersFromConfig([declaration]).length > 0);
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * Endpoints the server may call for a provider that takes a base URL: the
+ * comma-separated list in its baseUrlEnv, else its configured default.
+ * Requests can pick one of these but never name another host.
+ */
+export function allowedBaseUrls(provider: AIProvider): string[] {
+  const definition = getProvider(provider);
+  const spec = definition?.fields.find(({ field }) => field === 'baseUrl');
+  if (!definition || !spec) return [];
+  const configured = (definition.baseUrlEnv ? process.env[definition.baseUrlEnv] ?? '' : '')
+    .split(',')
+    .map(normalizeBaseUrl)
+    .filter(Boolean);
+  return configured.length > 0 ? configured : spec.default ? [normalizeBaseUrl(spec.default)] : [];
+}
+
+/**
+ * Base URL for a request: the requested one if it is allowed, the first
+ * allowed one when none is given, null when it isn't allowed, and undefined
+ * for providers without a base URL.
+ */
+export function resolveBaseUrl(provider: AIProvider, requested: unknown): string | null | undefined {
+  if (!getProvider(provider)?.fields.some(({ field }) => field === 'baseUrl')) return undefined;
+  const allowed = allowedBaseUrls(provider);
+  if (typeof requested !== 'string' || !requested.trim()) return allowed[0] ?? null;
+  const url = normalizeBaseUrl(requested);
+  return allowed.includes(url) ? url : null;
+}
+
+export const baseUrlNotAllowed = (provider: AIProvider) => {
+  const envName = getProvider(provider)?.baseUrlEnv;
+  return `Base URL not allowed for ${provider}${envName ? ` (add it to ${envName} on the server)` : ''}`;
+};
+
+export const getApiKey = (provider: AIProvider) => {
+  const envName = getProvider(provider)?.keyEnv;
+  return envName ? process.env[envName] || undefined : undefined;
+};
@@ -1,12 +1,41 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { WorldMap } from '@/components/WorldMap';
-import { SearchInput } from '@/components/SearchInput';
+import { SearchInput, loadSavedProviderConfig } from '@/components/SearchInput';
 import { InfoPanel } from '@/components/InfoPanel';
 import { PlaybackControls } from '@/components/PlaybackControls';
+import { ExportMenu } from '@/components/ExportMenu';
+import { LibraryPanel } from '@/components/LibraryPanel';
 import { fetchWordJourney } from '@/services/aiProvider';
+import { fetchCognateFanout } from '@/services/cognates';
+import { findSharedWaypoints } from '@/utils/comparison';
+import { buildYearAxis, getReachedIndex, getStepYears } from '@/utils/timeline';
+import { getStageYear } from '@/utils/century';
+import { findEra } from '@/services/eraBasemaps';
+import {
+  downloadBlob,
+  exportMapImage,
+  getExportCaption,
+  getExportFilename,
+  startMapRecording,
+  type AnimationFormat,
+  type ExportCaption,
+  type ImageFormat,
+  type MapRecording
+} from '@/services/mapExport';
+import { recordLookup } from '@/services/journeyLibrary';
+import { JOURNEY_FILE_TYPES, parseJourneyFile, serializeJourney, type JourneyFormat } from '@/services/journeyFormats';
+import {
+  buildShareUrl,
+  decodeJourneyPayload,
+  encodeJourneyPayload,
+  parseShareUrl,
+  shareQueryKey,
+  type ShareState
+} from '@/services/shareLinks';
+import { getProjectionOption, loadSavedProjection, saveProjection, type ProjectionId } from '@/utils/projections';
 import { AnimatePresence, motion } from 'framer-motion';
-import { AlertCircle, Languages, FastForward, Terminal } from 'lucide-react';
-import type { WordJourney, AIProviderConfig } from '@/types';
+import { AlertCircle, Languages, FastForward, Terminal, Library } from 'lucide-react';
+import type { WordJourney, CognateFanout, PartialJourney, AIProviderConfig, JourneyResult } from '@/types';
 
 const LOADING_MESSAGES = [
   "RESEARCHING_LINGUISTIC_ROOTS...",
@@ -19,16 +48,50 @@ const LOADING_MESSAGES = [
   "ভাষাগত শিকড় অনুসন্ধান করা হচ্ছে...",
 ];
 
+/** Playback time per stage at 1x; the year rate is derived from it so every journey plays in similar time */
+const STAGE_MS = 1500;
+/** How long a recorded animation holds its final frame after playback ends */
+const RECORDING_HOLD_MS = 1500;
+
+const formatAge = (timestamp?: number) => {
+  if (!timestamp) return 'unknown';
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+};
+
 const App: React.FC = () => {
   const [journeyData, setJourneyData] = useState<WordJourney | null>(null);
+  const [fanoutData, setFanoutData] = useState<CognateFanout | null>(null);
+  const [comparisonData, setComparisonData] = useState<WordJourney[] | null>(null);
+  const [comparisonTab, setComparisonTab] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeWaypointIndex, setActiveWaypointIndex] = useState(-1);
+  const [projection, setProjection] = useState<ProjectionId>(loadSavedProjection);
+  const [currentYear, setCurrentYear] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [showPanel, setShowPanel] = useState(false);
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
+  const [partialJourney, setPartialJourney] = useState<PartialJourney | null>(null);
+  const [resultMeta, setResultMeta] = useState<Omit<JourneyResult, 'journey'> | null>(null);
+  const [recording, setRecording] = useState<AnimationFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // What the URL says was looked up (without the stage), and the journey embedded in its fragment
+  const [shareBase, setShareBase] = useState<Omit<ShareState, 'step'> | null>(() => parseShareUrl(window.location.href).state);
+  const [embeddedPayload, setEmbeddedPayload] = useState<string | null>(() => parseShareUrl(window.location.href).payload);
+  // Stage from a link, applied once its data is on the map
+  const [pendingStage, setPendingStage] = useState<number | null>(null);
+  // A linked stage that shares its year with later ones; shown until the year moves
+  const [linkedStage, setLinkedStage] = useState<{ index: number; year: number } | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  // Bumped after each recorded lookup so the library reads its history again
+  const [historyVersion, setHistoryVersion] = useState(0);
   const timerRef = useRef<number | null>(null);
+  const mapRef = useRef<SVGSVGElement>(null);
+  const recordingRef = useRef<{ recorder: MapRecording; caption: ExportCaption; format: AnimationFormat } | null>(null);
 
   // Cycle loading messages
   useEffect(() => {
@@ -41,45 +104,222 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isLoading]);
 
-  const handleSearch = async (word: string, config: AIProviderConfig) => {
+  // History is best effort: a lookup that can't be stored still shows
+  const addToHistory = (word: string, config: AIProviderConfig, journey: WordJourney) => {
+    recordLookup(word, config, journey)
+      .then(() => setHistoryVersion(prev => prev + 1))
+      .catch(() => {});
+  };
+
+  const handleSearch = async (word: string, config: AIProviderConfig, consensus?: AIProviderConfig[]) => {
     setIsLoading(true);
     setError(null);
     setIsPlaying(false);
     setActiveWaypointIndex(-1);
     setShowPanel(false);
+    setPartialJourney(null);
 
     try {
-      const data = await fetchWordJourney(word, config);
-      setJourneyData(data);
+      const result = await fetchWordJourney(word, config, { onProgress: setPartialJourney, consensus });
+      setJourneyData(result.journey);
+      setFanoutData(null);
+      setComparisonData(null);
+      setResultMeta({ attempts: result.attempts, repairs: result.repairs, cached: result.cached, cachedAt: result.cachedAt });
+      setShareBase({ query: { type: 'word', words: [word] }, provider: config.provider, responseLanguage: config.responseLanguage });
+      setEmbeddedPayload(null);
       setShowPanel(true);
+      addToHistory(word, config, result.journey);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'RESEARCH_FAILED_RETRY_QUERY';
       setError(message);
     } finally {
       setIsLoading(false);
+      setPartialJourney(null);
     }
   };
 
-  const handleTogglePlay = () => setIsPlaying(prev => !prev);
+  const handleSearchCognates = async (root: string, sourceLanguage: string, config: AIProviderConfig) => {
+    setIsLoading(true);
+    setError(null);
+    setIsPlaying(false);
+    setActiveWaypointIndex(-1);
+    setShowPanel(false);
+    setPartialJourney(null);
+
+    try {
+      const result = await fetchCognateFanout(root, sourceLanguage, config);
+      setFanoutData(result.fanout);
+      setJourneyData(null);
+      setComparisonData(null);
+      setResultMeta({ attempts: result.attempts, repairs: result.repairs, cached: false });
+      setShareBase({ query: { type: 'root', root, language: sourceLanguage }, provider: config.provider, responseLanguage: config.responseLanguage });
+      setEmbeddedPayload(null);
+      setShowPanel(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'RESEARCH_FAILED_RETRY_QUERY';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCompare = async (words: string[], config: AIProviderConfig, consensus?: AIProviderConfig[]) => {
+    setIsLoading(true);
+    setError(null);
+    setIsPlaying(false);
+    setActiveWaypointIndex(-1);
+    setShowPanel(false);
+    setPartialJourney(null);
+
+    try {
+      const results = await Promise.all(words.map(word => fetchWordJourney(word, config, { consensus })));
+      setComparisonData(results.map(result => result.journey));
+      setComparisonTab(0);
+      setJourneyData(null);
+      setFanoutData(null);
+      setResultMeta({
+        attempts: results.reduce((sum, result) => sum + result.attempts, 0),
+        repairs: results.flatMap(result => result.repairs),
+        cached: results.every(result => result.cached),
+        cachedAt: Math.min(...results.map(result => result.cachedAt ?? Date.now()))
+      });
+      setShareBase({ query: { type: 'word', words }, provider: config.provider, responseLanguage: config.responseLanguage });
+      setEmbeddedPayload(null);
+      setShowPanel(true);
+      results.forEach((result, idx) => addToHistory(words[idx], config, result.journey));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'RESEARCH_FAILED_RETRY_QUERY';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const comparison = useMemo(() => {
+    if (!comparisonData) return null;
+    return {
+      years: comparisonData.map(getStepYears),
+      shared: findSharedWaypoints(comparisonData)
+    };
+  }, [comparisonData]);
+
+  const panelData = comparisonData?.[comparisonTab] ?? journeyData ?? fanoutData;
+
+  // Playback runs on real years when the journey's dates can be read, otherwise stage by stage
+  const yearAxis = useMemo(() => {
+    if (comparisonData) return buildYearAxis(comparisonData);
+    return journeyData ? buildYearAxis([journeyData]) : null;
+  }, [comparisonData, journeyData]);
+  const stepYears = useMemo(() => (journeyData ? getStepYears(journeyData) : []), [journeyData]);
+  const lastStageYear = yearAxis ? yearAxis.ticks[yearAxis.ticks.length - 1] ?? yearAxis.startYear : 0;
+
+  useEffect(() => {
+    setCurrentYear(yearAxis ? yearAxis.startYear : null);
+    setLinkedStage(null);
+  }, [yearAxis]);
+
+  useEffect(() => {
+    if (linkedStage && linkedStage.year !== currentYear) setLinkedStage(null);
+  }, [linkedStage, currentYear]);
+
+  const waypointIndex = yearAxis && journeyData && currentYear !== null
+    ? linkedStage?.year === currentYear ? linkedStage.index : getReachedIndex(stepYears, currentYear)
+    : activeWaypointIndex;
+  const stepCount = journeyData?.journey.length ?? 0;
+
+  // Borders follow the active stage's century; comparisons have no single stage, so they follow the year axis
+  const activeStage = journeyData
+    ? journeyData.journey[waypointIndex] ?? journeyData.origin
+    : fanoutData
+      ? fanoutData.descendants[activeWaypointIndex] ?? fanoutData.origin
+      : null;
+  const eraYear = comparisonData ? currentYear : activeStage ? getStageYear(activeStage) : null;
+  const era = useMemo(() => findEra(eraYear), [eraYear]);
+
+  // While streaming, draw whatever has arrived so far as a provisional journey
+  const streamingJourney = useMemo<WordJourney | null>(() => {
+    if (!isLoading || !partialJourney?.origin) return null;
+    return {
+      word: partialJourney.word ?? '',
+      currentMeaning: partialJourney.currentMeaning ?? '',
+      origin: partialJourney.origin,
+      journey: partialJourney.journey,
+      narrative: '',
+      routeSummary: partialJourney.routeSummary ?? ''
+    };
+  }, [isLoading, partialJourney]);
+
+  const handleTogglePlay = () => {
+    // Playing from the end starts over
+    if (!isPlaying && yearAxis && currentYear !== null && currentYear >= lastStageYear) {
+      setCurrentYear(yearAxis.startYear);
+    }
+    setIsPlaying(prev => !prev);
+  };
 
   const handleReset = () => {
     setIsPlaying(false);
     setActiveWaypointIndex(-1);
+    setCurrentYear(yearAxis ? yearAxis.startYear : null);
+  };
+
+  const handleProjectionChange = (next: ProjectionId) => {
+    saveProjection(next);
+    setProjection(next);
+  };
+
+  const handleScrub = (year: number) => {
+    setIsPlaying(false);
+    setCurrentYear(year);
   };
 
+  // Next/previous jump between stage years on the year axis, or between stages without one
   const handleNext = useCallback(() => {
-    if (!journeyData) return;
-    setActiveWaypointIndex(prev => Math.min(prev + 1, journeyData.journey.length - 1));
-  }, [journeyData]);
+    if (yearAxis) {
+      setCurrentYear(prev => yearAxis.ticks.find(tick => tick > (prev ?? yearAxis.startYear)) ?? lastStageYear);
+      return;
+    }
+    if (stepCount === 0) return;
+    setActiveWaypointIndex(prev => Math.min(prev + 1, stepCount - 1));
+  }, [yearAxis, lastStageYear, stepCount]);
 
   const handlePrev = useCallback(() => {
+    if (yearAxis) {
+      setCurrentYear(prev => [...yearAxis.ticks].reverse().find(tick => tick < (prev ?? yearAxis.startYear)) ?? yearAxis.startYear);
+      return;
+    }
     setActiveWaypointIndex(prev => Math.max(prev - 1, -1));
-  }, []);
+  }, [yearAxis]);
 
-  // Auto-play logic
+  // Year-driven playback: a constant number of years per second, so long gaps take longer
   useEffect(() => {
-    if (isPlaying && journeyData) {
-      if (activeWaypointIndex < journeyData.journey.length - 1) {
+    if (!isPlaying || !yearAxis) return;
+
+    const span = Math.max(lastStageYear - yearAxis.startYear, 1);
+    const yearsPerMs = (span / (STAGE_MS * Math.max(yearAxis.ticks.length, 1))) * playbackSpeed;
+    let last = performance.now();
+    let frame = 0;
+
+    const advance = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      setCurrentYear(prev => Math.min((prev ?? yearAxis.startYear) + elapsed * yearsPerMs, lastStageYear));
+      frame = requestAnimationFrame(advance);
+    };
+    frame = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, yearAxis, lastStageYear, playbackSpeed]);
+
+  useEffect(() => {
+    if (isPlaying && yearAxis && currentYear !== null && currentYear >= lastStageYear) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, yearAxis, currentYear, lastStageYear]);
+
+  // Stage-by-stage playback for journeys without readable dates
+  useEffect(() => {
+    if (isPlaying && !yearAxis && stepCount > 0) {
+      if (activeWaypointIndex < stepCount - 1) {
         timerRef.current = window.setTimeout(() => {
           handleNext();
         }, 1500 / playbackSpeed);
@@ -90,9 +330,227 @@ const App: React.FC = () => {
     return () => {
       if (timerRef.current) window.clearTimeout(timerRef.current);
     };
-  }, [isPlaying, activeWaypointIndex, journeyData, handleNext, playbackSpeed]);
+  }, [isPlaying, yearAxis, activeWaypointIndex, stepCount, handleNext, playbackSpeed]);
 
-  const progress = journeyData ? (activeWaypointIndex + 1) / journeyData.journey.length : 0;
+  // Exports caption everything on the map, not just the journey shown in the panel
+  const exportData = comparisonData ?? journeyData ?? fanoutData;
+
+  const handleExportImage = async (format: ImageFormat, scale: number) => {
+    if (!mapRef.current || !exportData) return;
+    setExportError(null);
+    try {
+      const caption = getExportCaption(exportData);
+      downloadBlob(await exportMapImage(mapRef.current, caption, format, scale), getExportFilename(caption, format));
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'EXPORT_FAILED');
+    }
+  };
+
+  // Animations are captured while playback runs from the start
+  const handleExportAnimation = (format: AnimationFormat) => {
+    if (!mapRef.current || !exportData) return;
+    setExportError(null);
+    try {
+      const caption = getExportCaption(exportData);
+      recordingRef.current = { recorder: startMapRecording(mapRef.current, caption, format), caption, format };
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'EXPORT_FAILED');
+      return;
+    }
+    setRecording(format);
+    setActiveWaypointIndex(-1);
+    setCurrentYear(yearAxis ? yearAxis.startYear : null);
+    setIsPlaying(true);
+  };
+
+  // Journey data is exported for the journey in the panel (fan-outs have no stages to export)
+  const panelJourney = comparisonData?.[comparisonTab] ?? journeyData;
+
+  const handleExportJourney = (format: JourneyFormat) => {
+    if (!panelJourney) return;
+    const { extension, mimeType } = JOURNEY_FILE_TYPES[format];
+    const blob = new Blob([serializeJourney(panelJourney, format)], { type: mimeType });
+    downloadBlob(blob, getExportFilename(getExportCaption(panelJourney), extension));
+  };
+
+  // Shows journeys from a file or the library: one on its own, several compared
+  const showJourneys = (journeys: WordJourney[]) => {
+    setError(null);
+    setIsPlaying(false);
+    setActiveWaypointIndex(-1);
+    setJourneyData(journeys.length === 1 ? journeys[0] : null);
+    setComparisonData(journeys.length > 1 ? journeys : null);
+    setComparisonTab(0);
+    setFanoutData(null);
+    setResultMeta(null);
+    setShareBase(null);
+    setEmbeddedPayload(null);
+    setShowPanel(true);
+  };
+
+  const handleImportJourney = async (file: File) => {
+    setError(null);
+    try {
+      showJourneys([parseJourneyFile(await file.text())]);
+    } catch (err) {
+      setError(err instanceof Error ? `IMPORT_FAILED: ${err.message}` : 'IMPORT_FAILED');
+    }
+  };
+
+  // Opens a link: a journey in the fragment is shown as is, a query is searched again (unless already shown)
+  const applyShareLink = async (href: string) => {
+    const { state, payload } = parseShareUrl(href);
+    const base = state ? { query: state.query, provider: state.provider, responseLanguage: state.responseLanguage } : null;
+    const stage = (state?.step ?? 0) - 1;
+    setError(null);
+    setIsPlaying(false);
+
+    if (payload) {
+      try {
+        const journey = await decodeJourneyPayload(payload);
+        setJourneyData(journey);
+        setFanoutData(null);
+        setComparisonData(null);
+        setResultMeta(null);
+        setShareBase(base);
+        setEmbeddedPayload(payload);
+        setPendingStage(stage);
+        setShowPanel(true);
+      } catch (err) {
+        setError(err instanceof Error ? `LINK_FAILED: ${err.message}` : 'LINK_FAILED');
+      }
+      return;
+    }
+
+    setEmbeddedPayload(null);
+    if (!state) {
+      setShareBase(null);
+      setJourneyData(null);
+      setFanoutData(null);
+      setComparisonData(null);
+      setResultMeta(null);
+      setActiveWaypointIndex(-1);
+      setShowPanel(false);
+      return;
+    }
+
+    setPendingStage(stage);
+    if (exportData && !embeddedPayload && shareQueryKey(state.query) === shareQueryKey(shareBase?.query)) return;
+
+    const config = loadSavedProviderConfig(state.provider, state.responseLanguage);
+    const { query } = state;
+    if (query.type === 'root') {
+      await handleSearchCognates(query.root, query.language, config);
+    } else if (query.words.length > 1) {
+      await handleCompare(query.words, config);
+    } else {
+      await handleSearch(query.words[0], config);
+    }
+  };
+
+  // Back/forward move between links; the listener always calls the latest applyShareLink
+  const applyShareLinkRef = useRef(applyShareLink);
+  applyShareLinkRef.current = applyShareLink;
+  const openedLinkRef = useRef(false);
+
+  useEffect(() => {
+    // Once only, even when effects run twice in development
+    const { state, payload } = parseShareUrl(window.location.href);
+    if ((state || payload) && !openedLinkRef.current) applyShareLinkRef.current(window.location.href);
+    openedLinkRef.current = true;
+
+    const handlePopState = () => applyShareLinkRef.current(window.location.href);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // A linked stage is applied once its data has loaded; a failed search drops it
+  useEffect(() => {
+    if (pendingStage === null || isLoading) return;
+    if (error) {
+      setPendingStage(null);
+      return;
+    }
+    if (!exportData) return;
+
+    const lastStage = (journeyData?.journey.length ?? fanoutData?.descendants.length ?? 0) - 1;
+    const stage = Math.min(pendingStage, lastStage);
+    setActiveWaypointIndex(stage);
+    if (yearAxis) {
+      const stageYear = journeyData && stage >= 0 ? stepYears[stage] : undefined;
+      if (stageYear !== undefined && Number.isFinite(stageYear)) {
+        setCurrentYear(stageYear);
+        // Stages sharing a year would otherwise open on the last of them
+        setLinkedStage({ index: stage, year: stageYear });
+      } else {
+        setCurrentYear(yearAxis.startYear);
+      }
+    }
+    setPendingStage(null);
+  }, [pendingStage, isLoading, error, exportData, journeyData, fanoutData, yearAxis, stepYears]);
+
+  // The address bar follows the search and the active stage: a new search adds a history entry, moving between stages replaces it
+  const shareStep = comparisonData ? -1 : journeyData ? waypointIndex : fanoutData ? activeWaypointIndex : -1;
+  const shareKeyRef = useRef(shareQueryKey(shareBase?.query));
+
+  useEffect(() => {
+    if (isLoading || pendingStage !== null) return;
+    // Nothing from the link is on the map yet (e.g. its search failed): leave the URL as it is
+    if (shareBase && !exportData) return;
+
+    const state = shareBase && { ...shareBase, step: shareStep >= 0 ? shareStep + 1 : undefined };
+    const href = buildShareUrl(window.location.href, state, embeddedPayload);
+    const key = shareQueryKey(shareBase?.query);
+    if (href !== window.location.href) {
+      if (key === shareKeyRef.current) {
+        window.history.replaceState(null, '', href);
+      } else {
+        window.history.pushState(null, '', href);
+      }
+    }
+    shareKeyRef.current = key;
+  }, [shareBase, embeddedPayload, shareStep, isLoading, pendingStage, exportData]);
+
+  const handleCopyLink = async (withJourney: boolean) => {
+    setExportError(null);
+    try {
+      let href = window.location.href;
+      if (withJourney && panelJourney) {
+        // The embedded journey is the one in the panel, so the link's query names just that word
+        const step = journeyData === panelJourney && waypointIndex >= 0 ? waypointIndex + 1 : undefined;
+        href = buildShareUrl(href, {
+          query: { type: 'word', words: [panelJourney.word] },
+          provider: shareBase?.provider,
+          responseLanguage: shareBase?.responseLanguage,
+          step
+        }, await encodeJourneyPayload(panelJourney));
+      }
+      await navigator.clipboard.writeText(href);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'COPY_FAILED');
+      throw err;
+    }
+  };
+
+  // Playback ending (or being paused) finishes the recording
+  useEffect(() => {
+    if (!recording || isPlaying) return;
+
+    const timer = window.setTimeout(async () => {
+      const current = recordingRef.current;
+      recordingRef.current = null;
+      try {
+        if (current) downloadBlob(await current.recorder.stop(), getExportFilename(current.caption, current.format));
+      } catch (err) {
+        setExportError(err instanceof Error ? err.message : 'EXPORT_FAILED');
+      } finally {
+        setRecording(null);
+      }
+    }, RECORDING_HOLD_MS);
+    return () => window.clearTimeout(timer);
+  }, [recording, isPlaying]);
+
+  const progress = stepCount > 0 ? (activeWaypointIndex + 1) / stepCount : 0;
 
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-mint font-mono">
@@ -112,26 +570,65 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        <SearchInput onSearch={handleSearch} isLoading={isLoading} />
+        <SearchInput
+          onSearch={handleSearch}
+          onCompare={handleCompare}
+          onSearchCognates={handleSearchCognates}
+          isLoading={isLoading}
+          query={shareBase?.query}
+        />
 
         <div className="hidden lg:flex flex-col items-end shrink-0 pointer-events-none text-[8px] font-bold text-black/40 uppercase">
           <span>sys_id: 802405 (R00674)</span>
-          <span>proj: natural_earth_1</span>
+          <span>proj: {getProjectionOption(projection).header} // era: {era ? era.label : 'modern'}</span>
+          {panelData && resultMeta && (
+            resultMeta.cached ? (
+              <span className="text-black">cache: hit ({formatAge(resultMeta.cachedAt)})</span>
+            ) : (
+              <span>cache: miss / attempts: {resultMeta.attempts}</span>
+            )
+          )}
         </div>
       </header>
 
       {/* Main content */}
       <main className="flex-1 relative overflow-hidden">
         <WorldMap
-          journeyData={journeyData}
-          activeWaypointIndex={activeWaypointIndex}
-          isPanelOpen={showPanel && !!journeyData}
+          journeyData={streamingJourney ?? journeyData}
+          fanoutData={streamingJourney ? null : fanoutData}
+          comparisonData={streamingJourney ? null : comparisonData}
+          activeWaypointIndex={streamingJourney ? streamingJourney.journey.length - 1 : waypointIndex}
+          currentYear={streamingJourney ? null : currentYear}
+          era={streamingJourney ? null : era}
+          projection={projection}
+          onProjectionChange={handleProjectionChange}
+          isPanelOpen={showPanel && !!panelData}
+          ref={mapRef}
         />
 
         <AnimatePresence>
+          {/* Streaming status: keep the map visible while waypoints arrive */}
+          {isLoading && streamingJourney && (
+            <motion.div
+              key="streaming-status"
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute bottom-10 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 bg-white px-5 py-2 border border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+            >
+              <div className="w-6 h-6 bg-black flex items-center justify-center animate-pulse">
+                <Languages size={14} className="text-white" />
+              </div>
+              <p className="text-black font-black uppercase tracking-tighter text-xs">
+                STREAMING_ROUTE :: {streamingJourney.journey.length} WAYPOINTS_RECEIVED
+              </p>
+            </motion.div>
+          )}
+
           {/* Loading overlay */}
-          {isLoading && (
+          {isLoading && !streamingJourney && (
             <motion.div
+              key="loading-overlay"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
@@ -164,28 +661,80 @@ const App: React.FC = () => {
           )}
         </AnimatePresence>
 
+        <button
+          onClick={() => setShowLibrary(prev => !prev)}
+          className={`absolute top-20 left-6 z-10 flex items-center gap-2 px-2 py-1 border border-black text-[9px] font-black uppercase font-mono transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+            showLibrary ? 'bg-black text-white' : 'bg-white text-black hover:bg-black hover:text-white'
+          }`}
+          title="Past lookups and saved collections"
+        >
+          <Library size={12} />
+          History_Collections
+        </button>
+
+        <AnimatePresence>
+          {showLibrary && (
+            <LibraryPanel
+              onClose={() => setShowLibrary(false)}
+              onOpen={showJourneys}
+              currentJourney={isLoading ? null : panelJourney}
+              historyVersion={historyVersion}
+            />
+          )}
+        </AnimatePresence>
+
+        {!isLoading && (
+          <ExportMenu
+            canExportMap={!!exportData}
+            onExportImage={handleExportImage}
+            onExportAnimation={handleExportAnimation}
+            canAnimate={!!yearAxis || stepCount > 0}
+            onExportJourney={panelJourney ? handleExportJourney : undefined}
+            onImportJourney={handleImportJourney}
+            onCopyLink={exportData ? handleCopyLink : undefined}
+            canLinkSearch={!!shareBase}
+            canLinkJourney={!!panelJourney}
+            recording={recording}
+            error={exportError}
+          />
+        )}
+
         {/* Playback controls and info panel */}
-        {journeyData && !isLoading && (
+        {panelData && !isLoading && (
           <>
-            <PlaybackControls
-              isPlaying={isPlaying}
-              onTogglePlay={handleTogglePlay}
-              onNext={handleNext}
-              onPrev={handlePrev}
-              onReset={handleReset}
-              playbackSpeed={playbackSpeed}
-              onSetSpeed={setPlaybackSpeed}
-              progress={progress}
-              canGoNext={activeWaypointIndex < journeyData.journey.length - 1}
-              canGoPrev={activeWaypointIndex > -1}
-            />
+            {(yearAxis || stepCount > 0) && (
+              <PlaybackControls
+                isPlaying={isPlaying}
+                onTogglePlay={handleTogglePlay}
+                onNext={handleNext}
+                onPrev={handlePrev}
+                onReset={handleReset}
+                playbackSpeed={playbackSpeed}
+                onSetSpeed={setPlaybackSpeed}
+                progress={progress}
+                canGoNext={yearAxis ? (currentYear ?? yearAxis.startYear) < lastStageYear : activeWaypointIndex < stepCount - 1}
+                canGoPrev={yearAxis ? (currentYear ?? yearAxis.startYear) > yearAxis.startYear : activeWaypointIndex > -1}
+                scrubber={yearAxis && currentYear !== null ? { ...yearAxis, currentYear, onScrub: handleScrub } : undefined}
+              />
+            )}
 
             <AnimatePresence>
               {showPanel && (
                 <InfoPanel
-                  data={journeyData}
+                  data={panelData}
                   onClose={() => setShowPanel(false)}
-                  activeWaypointIndex={activeWaypointIndex}
+                  activeWaypointIndex={
+                    comparison
+                      ? getReachedIndex(comparison.years[comparisonTab], currentYear ?? -Infinity)
+                      : waypointIndex
+                  }
+                  onSelectWaypoint={setActiveWaypointIndex}
+                  tabs={comparisonData ? {
+                    words: comparisonData.map(journey => journey.word),
+                    active: comparisonTab,
+                    onSelect: setComparisonTab
+                  } : undefined}
+                  sharedOrders={comparison?.shared[comparisonTab]}
                 />
               )}
             </AnimatePresence>
@@ -202,7 +751,7 @@ const App: React.FC = () => {
         )}
 
         {/* Empty state legend */}
-        {!journeyData && !isLoading && (
+        {!panelData && !isLoading && (
           <div className="absolute bottom-20 left-10 text-black max-w-xs space-y-4 pointer-events-none font-mono">
             <div className="border-l-4 border-black pl-4">
               <p className="text-[11px] font-bold leading-tight uppercase">
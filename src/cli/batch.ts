@@ -0,0 +1,210 @@
+/**
+ * Batch runs for the etymology CLI: traces a list of words with a few in
+ * flight at once and writes one file per word plus manifest.json to an
+ * output directory. Words the manifest records as done, with their file still
+ * there, are skipped, so an interrupted or partly failed run is finished by
+ * running it again.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { WordJourney } from '../types';
+import { normalizeCacheWord } from '../services/journeyCache';
+import { JOURNEY_FILE_TYPES, serializeJourney, type JourneyFormat } from '../services/journeyFormats';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface BatchOptions {
+  outDir: string;
+  format: JourneyFormat;
+  concurrency: number;
+  /** Extra attempts after a word fails */
+  retries: number;
+  /** Recorded in the manifest */
+  model: string;
+  trace: (word: string) => Promise<WordJourney>;
+  log?: (message: string) => void;
+}
+
+export interface ManifestEntry {
+  word: string;
+  status: 'done' | 'failed';
+  file?: string;
+  error?: string;
+  attempts: number;
+  finishedAt: string;
+}
+
+export interface BatchManifest {
+  model: string;
+  format: JourneyFormat;
+  updatedAt: string;
+  done: number;
+  failed: number;
+  words: ManifestEntry[];
+}
+
+export interface BatchSummary {
+  done: number;
+  skipped: number;
+  failed: number;
+}
+
+/** Wait before retry n (1-based); grows so a rate-limited provider can recover */
+const RETRY_DELAY_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Words from a list: one per line (commas also separate), `#` starts a comment, duplicates dropped. */
+export function parseWordList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split('\n')
+    .flatMap(line => line.replace(/#.*/, '').split(','))
+    .map(word => word.trim())
+    .filter(word => {
+      const key = normalizeCacheWord(word);
+      if (!word || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * File name for a word's journey, e.g. "ice_cream.json"; letters in any script
+ * are kept. `hashed` adds a short hash of the word, e.g. "ice_cream-1a2b3c.json",
+ * for words whose plain name belongs to another word.
+ */
+export const getWordFilename = (word: string, format: JourneyFormat, hashed = false) => {
+  const key = normalizeCacheWord(word);
+  const slug = key.replace(/[^\p{L}\p{N}-]+/gu, '_').replace(/^_+|_+$/g, '') || 'word';
+  const suffix = hashed ? `-${createHash('sha1').update(key).digest('hex').slice(0, 6)}` : '';
+  return `${slug}${suffix}.${JOURNEY_FILE_TYPES[format].extension}`;
+};
+
+/**
+ * File name per word. Words in the manifest keep the file it records; the rest
+ * get their plain name unless another word owns it, since "ice cream" and
+ * "ice_cream" share a slug, and a hashed name otherwise.
+ */
+export function assignFilenames(words: string[], format: JourneyFormat, previous: ManifestEntry[] = []): Map<string, string> {
+  const extension = `.${JOURNEY_FILE_TYPES[format].extension}`;
+  const owned = new Map(previous
+    .filter(entry => entry.file?.endsWith(extension))
+    .map(entry => [normalizeCacheWord(entry.word), entry.file!]));
+  const taken = new Set(owned.values());
+
+  const files = new Map<string, string>();
+  for (const word of words) {
+    const file = owned.get(normalizeCacheWord(word));
+    if (file) files.set(word, file);
+  }
+  for (const word of words) {
+    if (files.has(word)) continue;
+    let file = getWordFilename(word, format);
+    if (taken.has(file)) file = getWordFilename(word, format, true);
+    taken.add(file);
+    files.set(word, file);
+  }
+  return files;
+}
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+// Write then rename so an interrupted run never leaves a half-written file that looks done
+async function writeAtomic(file: string, content: string) {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, content);
+  await fs.rename(tmp, file);
+}
+
+async function readManifest(outDir: string): Promise<ManifestEntry[]> {
+  try {
+    const manifest: BatchManifest = JSON.parse(await fs.readFile(path.join(outDir, MANIFEST_FILE), 'utf-8'));
+    return Array.isArray(manifest.words) ? manifest.words : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function runBatch(words: string[], options: BatchOptions): Promise<BatchSummary> {
+  const { outDir, format, concurrency, retries, model, trace, log = console.log } = options;
+  await fs.mkdir(outDir, { recursive: true });
+
+  // Earlier runs' entries are kept; this run's results replace them word by word
+  const previous = await readManifest(outDir);
+  const entries = new Map(previous.map(entry => [normalizeCacheWord(entry.word), entry]));
+  let manifestWrite = Promise.resolve();
+  const files = assignFilenames(words, format, previous);
+  const saveManifest = () => {
+    const list = [...entries.values()];
+    const manifest: BatchManifest = {
+      model,
+      format,
+      updatedAt: new Date().toISOString(),
+      done: list.filter(entry => entry.status === 'done').length,
+      failed: list.filter(entry => entry.status === 'failed').length,
+      words: list
+    };
+    // Chained so concurrent workers don't interleave writes; a failed write is
+    // reported but doesn't stop the later ones
+    manifestWrite = manifestWrite
+      .then(() => writeAtomic(path.join(outDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2)))
+      .catch(error => console.error(`⚠️  Failed to write ${MANIFEST_FILE}: ${error?.message ?? error}`));
+    return manifestWrite;
+  };
+
+  const pending: string[] = [];
+  let skipped = 0;
+  for (const word of words) {
+    // A file alone may hold another word's journey, so only the manifest says a word is done
+    const file = files.get(word)!;
+    const entry = entries.get(normalizeCacheWord(word));
+    if (entry?.status === 'done' && entry.file === file && await exists(path.join(outDir, file))) {
+      skipped++;
+    } else {
+      pending.push(word);
+    }
+  }
+  log(`📚 ${words.length} words: ${skipped} already done, ${pending.length} to trace (${concurrency} at a time)`);
+
+  const summary: BatchSummary = { done: 0, skipped, failed: 0 };
+  let finished = 0;
+  const queue = [...pending];
+
+  const traceWord = async (word: string) => {
+    const file = files.get(word)!;
+    let lastError = '';
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      try {
+        const journey = await trace(word);
+        await writeAtomic(path.join(outDir, file), serializeJourney(journey, format));
+        entries.set(normalizeCacheWord(word), { word, status: 'done', file, attempts: attempt, finishedAt: new Date().toISOString() });
+        summary.done++;
+        log(`[${++finished}/${pending.length}] ✅ ${word} → ${file}`);
+        return;
+      } catch (error: any) {
+        lastError = error?.message ?? String(error);
+        if (attempt <= retries) {
+          console.error(`⚠️  ${word}: ${lastError} (retry ${attempt}/${retries})`);
+          await sleep(RETRY_DELAY_MS * attempt);
+        }
+      }
+    }
+    entries.set(normalizeCacheWord(word), { word, status: 'failed', error: lastError, attempts: retries + 1, finishedAt: new Date().toISOString() });
+    summary.failed++;
+    console.error(`[${++finished}/${pending.length}] ❌ ${word}: ${lastError}`);
+  };
+
+  const worker = async () => {
+    for (let word = queue.shift(); word !== undefined; word = queue.shift()) {
+      await traceWord(word);
+      await saveManifest();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+  await saveManifest();
+
+  return summary;
+}
@@ -1,69 +1,70 @@
 #!/usr/bin/env tsx
 /**
- * CLI tool for tracing word etymology using various AI models
+ * CLI tool for tracing word etymology using various AI models. Journeys come
+ * from the same fetchWordJourney() as the web app: same prompt, validation,
+ * re-prompting and cache.
  *
  * Usage:
- *   npx tsx src/cli/etymology.ts <word> [--model <model>] [--timeout <seconds>]
+ *   npx tsx src/cli/etymology.ts <word> [--model <provider>] [--language <lang>] [--format json|geojson|kml]
+ *   npx tsx src/cli/etymology.ts --input <file|-> --out <dir> [--concurrency <n>] [--retries <n>]
  *
- * Models: gemini, claude, codex, qwen, gemini-api
+ * Providers: gemini, claude, codex, qwen (CLI agents), gemini-api, openai-api,
+ * anthropic-api (keys from the environment / .env), ollama, openai-compatible,
+ * mock, plus any from cli-agents.json and providers.json
  *
  * Examples:
  *   npx tsx src/cli/etymology.ts coffee
  *   npx tsx src/cli/etymology.ts tea --model claude
  *   npx tsx src/cli/etymology.ts algorithm --model gemini --timeout 90
+ *   npx tsx src/cli/etymology.ts kaffee --model anthropic-api --language Deutsch
+ *   npx tsx src/cli/etymology.ts tea --model ollama --api-model mistral
+ *   npx tsx src/cli/etymology.ts tea --model openai-compatible --base-url http://localhost:1234/v1 --api-model qwen2.5-7b-instruct
+ *   npx tsx src/cli/etymology.ts silk --format kml > silk.kml
+ *   npx tsx src/cli/etymology.ts --input words.txt --out corpus/ --concurrency 4
  */
 
-import { execSync } from 'child_process';
-import path from 'path';
-
-const CLI_AGENTS_PATH = process.env.CLI_AGENTS_PATH || path.join(process.env.HOME || '~', '.claude/skills/cli-agents');
-
-const SYSTEM_INSTRUCTION = `You are an expert etymologist and historical linguist. When given a word, return its geographic and linguistic journey through history as structured JSON.
-
-Guidelines:
-- Coordinates must be [longitude, latitude] format (longitude first for GeoJSON compatibility)
-- Include 3-8 waypoints for most words, capturing major linguistic transitions.
-- For the journey array, order chronologically (order: 1 is first stop after origin).
-- Be historically accurate - if uncertain, note approximations.
-- routeType should reflect how the word likely traveled TO that location.
-- For each location, provide a name and the ISO 3166-1 alpha-2 country code.
-
-IMPORTANT: Return ONLY valid JSON matching this schema:
-{
-  "word": "string",
-  "currentMeaning": "string",
-  "origin": {
-    "word": "string",
-    "language": "string",
-    "meaning": "string",
-    "location": { "name": "string", "countryCode": "string", "coordinates": [lon, lat] },
-    "century": "string"
-  },
-  "journey": [{
-    "order": number,
-    "word": "string",
-    "language": "string",
-    "pronunciation": "string (optional)",
-    "location": { "name": "string", "countryCode": "string", "coordinates": [lon, lat] },
-    "century": "string",
-    "routeType": "land" | "sea",
-    "notes": "string"
-  }],
-  "narrative": "string",
-  "routeSummary": "string",
-  "funFact": "string (optional)"
-}`;
+import '../../server/env';
+import fs from 'fs/promises';
+import { createFileJourneyCache, JOURNEY_CACHE_DIR } from '../../server/journeyCache';
+import { runCliAgent } from '../../server/cliAgents';
+import { getApiKey } from '../../server/providers';
+import { fetchWordJourney, getProvider, listProviders, requiresKey } from '../services/aiProvider';
+import { parseHeaders } from '../services/providerRegistry';
+import { JOURNEY_FORMATS, serializeJourney, type JourneyFormat } from '../services/journeyFormats';
+import type { AIProvider, AIProviderConfig, WordJourney } from '../types';
+import { parseWordList, runBatch } from './batch';
 
 interface Args {
-  word: string;
-  model: string;
+  word?: string;
+  model: AIProvider;
   timeout: number;
+  refresh: boolean;
+  format?: JourneyFormat;
+  language?: string;
+  baseUrl?: string;
+  apiModel?: string;
+  /** "Name: value" lines for OpenAI-compatible servers */
+  headers: string[];
+  /** Batch mode: file with one word per line, or "-" for stdin */
+  input?: string;
+  out?: string;
+  concurrency: number;
+  retries: number;
 }
 
+const readPositiveInt = (flag: string, value: string, min: number) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    console.error(`${flag} expects a whole number of at least ${min}, got "${value}"`);
+    process.exit(1);
+  }
+  return number;
+};
+
 function parseArgs(): Args {
   const args = process.argv.slice(2);
 
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
     console.log(`
 Etymology Tracer - CLI tool for word origin visualization
 
@@ -71,79 +72,111 @@ Usage:
   npx tsx src/cli/etymology.ts <word> [options]
 
 Options:
-  --model <model>    AI model to use (gemini, claude, codex, qwen)
-                     Default: gemini
+  --model <provider> Provider to ask: gemini, claude, codex, qwen (CLI
+                     agents), gemini-api, openai-api, anthropic-api (key
+                     from the environment), ollama, openai-compatible,
+                     mock, or one from providers.json. Default: gemini
+  --api-model <name> Model for API providers, Ollama and OpenAI-compatible
+                     servers (e.g. gpt-4o)
+  --base-url <url>   Ollama endpoint (default: http://localhost:11434) or
+                     OpenAI-compatible one (default: http://localhost:8080/v1)
+  --header <h>       Extra "Name: value" header for an OpenAI-compatible
+                     server; repeat for more
+  --language <lang>  Language of the journey's text. Default: English
   --timeout <sec>    Timeout in seconds. Default: 60
+  --refresh          Ignore the journey cache and query the model again
+  --format <format>  Print the journey as json, geojson or kml instead of
+                     the readable summary (status messages go to stderr)
   --help, -h         Show this help
 
+Batch mode:
+  --input <file>     Trace every word in a file (one per line, # comments),
+                     or "-" to read them from stdin
+  --out <dir>        Write <word>.json (or the --format) per word and a
+                     manifest.json summary; reruns skip words already written
+  --concurrency <n>  Words traced at once. Default: 2
+  --retries <n>      Extra attempts for a failed word. Default: 2
+
 Examples:
   npx tsx src/cli/etymology.ts coffee
   npx tsx src/cli/etymology.ts tea --model claude
   npx tsx src/cli/etymology.ts algorithm --model qwen --timeout 90
+  npx tsx src/cli/etymology.ts kaffee --model anthropic-api --language Deutsch
+  npx tsx src/cli/etymology.ts tea --model openai-compatible --base-url http://localhost:1234/v1 --api-model qwen2.5-7b-instruct
+  npx tsx src/cli/etymology.ts silk --format geojson > silk.geojson
+  npx tsx src/cli/etymology.ts --input words.txt --out corpus/ --concurrency 4
+  cat words.txt | npx tsx src/cli/etymology.ts --input - --out corpus/
 `);
     process.exit(0);
   }
 
   const result: Args = {
-    word: args[0],
     model: 'gemini',
-    timeout: 60
+    timeout: 60,
+    refresh: false,
+    headers: [],
+    concurrency: 2,
+    retries: 2
   };
 
-  for (let i = 1; i < args.length; i++) {
-    if (args[i] === '--model' && args[i + 1]) {
-      result.model = args[++i];
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--') && result.word === undefined) {
+      result.word = args[i];
+    } else if (args[i] === '--model' && args[i + 1]) {
+      const provider = args[++i] as AIProvider;
+      if (!getProvider(provider)) {
+        console.error(`Unknown provider "${provider}" (expected ${listProviders().map(({ id }) => id).join(', ')})`);
+        process.exit(1);
+      }
+      result.model = provider;
+    } else if (args[i] === '--api-model' && args[i + 1]) {
+      result.apiModel = args[++i];
+    } else if (args[i] === '--base-url' && args[i + 1]) {
+      result.baseUrl = args[++i];
+    } else if (args[i] === '--header' && args[i + 1]) {
+      result.headers.push(args[++i]);
+    } else if (args[i] === '--language' && args[i + 1]) {
+      result.language = args[++i];
     } else if (args[i] === '--timeout' && args[i + 1]) {
-      result.timeout = parseInt(args[++i], 10);
+      result.timeout = readPositiveInt('--timeout', args[++i], 1);
+    } else if (args[i] === '--refresh') {
+      result.refresh = true;
+    } else if (args[i] === '--format' && args[i + 1]) {
+      const format = args[++i] as JourneyFormat;
+      if (!JOURNEY_FORMATS.includes(format)) {
+        console.error(`Unknown format "${format}" (expected ${JOURNEY_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      result.format = format;
+    } else if (args[i] === '--input' && args[i + 1]) {
+      result.input = args[++i];
+    } else if (args[i] === '--out' && args[i + 1]) {
+      result.out = args[++i];
+    } else if (args[i] === '--concurrency' && args[i + 1]) {
+      result.concurrency = readPositiveInt('--concurrency', args[++i], 1);
+    } else if (args[i] === '--retries' && args[i + 1]) {
+      result.retries = readPositiveInt('--retries', args[++i], 0);
     }
   }
 
-  return result;
-}
-
-function callCliAgent(word: string, model: string, timeout: number): string {
-  const prompt = `Trace the etymological journey of the word: "${word}"
-
-${SYSTEM_INSTRUCTION}
-
-Return ONLY the JSON object, no other text.`;
-
-  const cliCallerPath = path.join(CLI_AGENTS_PATH, 'cli_caller.py');
-
-  // Escape special characters in prompt for shell
-  const escapedPrompt = prompt.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-
-  const cmd = `python3 "${cliCallerPath}" --model ${model} --prompt "${escapedPrompt}" --timeout ${timeout}`;
-
-  console.log(`\n🔍 Tracing etymology of "${word}" using ${model}...\n`);
-
-  try {
-    const output = execSync(cmd, {
-      encoding: 'utf-8',
-      maxBuffer: 10 * 1024 * 1024, // 10MB
-      timeout: (timeout + 10) * 1000
-    });
-
-    return output;
-  } catch (error: any) {
-    if (error.stdout) {
-      return error.stdout;
-    }
-    throw error;
+  if (result.input && !result.out) {
+    console.error('--input needs --out <dir> for the journey files');
+    process.exit(1);
   }
-}
-
-function extractJson(text: string): any {
-  // Try to find JSON in the response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON found in response');
+  if (!result.input && !result.word) {
+    console.error('Give a word, or --input <file> for a batch (see --help)');
+    process.exit(1);
+  }
+  const definition = getProvider(result.model)!;
+  if (requiresKey(definition) && !getApiKey(result.model)) {
+    console.error(`${result.model} needs ${definition.keyEnv} in the environment or .env`);
+    process.exit(1);
   }
 
-  return JSON.parse(jsonMatch[0]);
+  return result;
 }
 
-function displayResult(data: any) {
+function displayResult(data: WordJourney) {
   console.log('\n' + '='.repeat(60));
   console.log(`📖 ${data.word.toUpperCase()}`);
   console.log('='.repeat(60));
@@ -157,15 +190,18 @@ function displayResult(data: any) {
   console.log(`   Century: ${data.origin.century}`);
 
   console.log('\n🗺️  JOURNEY');
-  data.journey.forEach((step: any, idx: number) => {
+  data.journey.forEach((step, idx) => {
     const icon = step.routeType === 'sea' ? '⛵' : '🚶';
     console.log(`\n   ${idx + 1}. ${icon} "${step.word}" (${step.language})`);
     console.log(`      → ${step.location.name} | ${step.century}`);
+    if (step.parent !== undefined && step.parent !== step.order - 1) {
+      console.log(`      ↳ branches from ${step.parent === 0 ? 'origin' : `stage ${step.parent}`}`);
+    }
     console.log(`      ${step.notes}`);
   });
 
   console.log('\n📜 NARRATIVE');
-  console.log(data.narrative.split('\n').map((l: string) => '   ' + l).join('\n'));
+  console.log(data.narrative.split('\n').map(l => '   ' + l).join('\n'));
 
   if (data.funFact) {
     console.log('\n💡 FUN FACT');
@@ -175,12 +211,69 @@ function displayResult(data: any) {
   console.log('\n' + '='.repeat(60));
 }
 
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+};
+
 async function main() {
-  const { word, model, timeout } = parseArgs();
+  const { word, model, timeout, refresh, format, language, baseUrl, apiModel, headers, input, out, concurrency, retries } = parseArgs();
+  const cache = createFileJourneyCache();
+  const config: AIProviderConfig = {
+    provider: model,
+    apiKey: getApiKey(model),
+    model: apiModel,
+    baseUrl,
+    ...(headers.length > 0 ? { headers: parseHeaders(headers.join('\n')) } : {}),
+    timeout,
+    responseLanguage: language,
+    forceRefresh: refresh
+  };
+
+  // Cached journeys are reused unless --refresh; new ones are cached for the web app and later runs.
+  // CLI agents run in this process, as they do in the API server.
+  const trace = async (word: string, status: (message: string) => void): Promise<WordJourney> => {
+    status(`\n🔍 Tracing etymology of "${word}" using ${apiModel ? `${model} (${apiModel})` : model}...\n`);
+    const result = await fetchWordJourney(word, config, { cache, runCLI: runCliAgent });
+    if (result.cached) {
+      status(`💾 Using cached result from ${new Date(result.cachedAt ?? Date.now()).toLocaleString()} (${JOURNEY_CACHE_DIR})`);
+    } else if (result.attempts > 1) {
+      status(`🔁 Valid after ${result.attempts} attempts`);
+    }
+    return result.journey;
+  };
+
+  if (input && out) {
+    try {
+      const words = parseWordList(input === '-' ? await readStdin() : await fs.readFile(input, 'utf-8'));
+      const { done, skipped, failed } = await runBatch(words, {
+        outDir: out,
+        format: format ?? 'json',
+        concurrency,
+        retries,
+        model,
+        trace: (word) => trace(word, () => {})
+      });
+      console.log(`\n📦 ${done} traced, ${skipped} skipped, ${failed} failed → ${out}`);
+      if (failed > 0) process.exit(1);
+    } catch (error: any) {
+      console.error(`\n❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // With --format, stdout carries only the data so it can be redirected to a file
+  const status = format ? console.error : console.log;
 
   try {
-    const output = callCliAgent(word, model, timeout);
-    const data = extractJson(output);
+    const data = await trace(word!, status);
+
+    if (format) {
+      console.log(serializeJourney(data, format));
+      return;
+    }
 
     displayResult(data);
 
@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { Globe2, Upload } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { describeBasemap, type BasemapResolution, type BasemapSource } from '@/services/basemap';
+
+export type BasemapStatus = 'loading' | 'ready' | 'failed';
+
+interface BasemapControlProps {
+  source: BasemapSource;
+  status: BasemapStatus;
+  error?: string | null;
+  onChange: (source: BasemapSource) => void;
+}
+
+const RESOLUTIONS: { id: BasemapResolution; label: string }[] = [
+  { id: '110m', label: '1:110M // Fast' },
+  { id: '50m', label: '1:50M // Detailed' }
+];
+
+const STATUS_COLORS: Record<BasemapStatus, string> = {
+  loading: 'bg-yellow-400 animate-pulse',
+  ready: 'bg-green-500',
+  failed: 'bg-red-500'
+};
+
+export const BasemapControl: React.FC<BasemapControlProps> = ({ source, status, error, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState(source.type === 'url' ? source.url : '');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onChange({ type: 'file', name: file.name, text: await file.text() });
+  };
+
+  return (
+    <div className="font-mono">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-2 px-2 py-1 border border-black text-[9px] font-black uppercase transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+          isOpen ? 'bg-black text-white' : 'bg-white text-black hover:bg-black hover:text-white'
+        }`}
+        title={error ?? 'Basemap source'}
+      >
+        <Globe2 size={12} />
+        Basemap // {describeBasemap(source)}
+        <span className={`w-1.5 h-1.5 ${STATUS_COLORS[status]}`} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ y: -5, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="mt-1 w-64 bg-white border border-black p-2 flex flex-col gap-2 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          >
+            <div className="flex flex-col gap-1">
+              <label className="text-[9px] font-bold text-black/60 uppercase">Bundled (offline)</label>
+              <div className="flex gap-1">
+                {RESOLUTIONS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => onChange({ type: 'bundled', resolution: id })}
+                    className={`flex-1 px-1.5 py-1 text-[9px] font-black uppercase border border-black transition-colors ${
+                      source.type === 'bundled' && source.resolution === id
+                        ? 'bg-black text-white'
+                        : 'bg-white text-black hover:bg-black/5'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <label className="text-[9px] font-bold text-black/60 uppercase">Custom TopoJSON URL</label>
+              <form
+                className="flex gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (url.trim()) onChange({ type: 'url', url: url.trim() });
+                }}
+              >
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="flex-1 min-w-0 bg-white border border-black/20 focus:border-black text-black px-2 py-0.5 text-[10px] font-mono outline-none"
+                />
+                <button
+                  type="submit"
+                  className="px-2 py-0.5 bg-black text-white text-[9px] font-black uppercase hover:bg-gray-800"
+                >
+                  Load
+                </button>
+              </form>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <label className="text-[9px] font-bold text-black/60 uppercase">Local file</label>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={`flex items-center justify-center gap-1.5 px-2 py-1 border border-black text-[9px] font-black uppercase transition-colors ${
+                  source.type === 'file' ? 'bg-black text-white' : 'bg-white text-black hover:bg-black/5'
+                }`}
+              >
+                <Upload size={10} />
+                {source.type === 'file' ? source.name : 'Open TopoJSON'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.topojson,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            {status === 'failed' && error && (
+              <p className="text-[9px] font-bold text-red-600 uppercase leading-tight">
+                Basemap failed: {error}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { Check, Download, Link, Loader2, Upload } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { AnimationFormat, ImageFormat } from '@/services/mapExport';
+import { JOURNEY_FORMATS, type JourneyFormat } from '@/services/journeyFormats';
+
+interface ExportMenuProps {
+  /** Whether anything is on the map to snapshot */
+  canExportMap: boolean;
+  onExportImage: (format: ImageFormat, scale: number) => void;
+  onExportAnimation: (format: AnimationFormat) => void;
+  /** Whether there is playback to record */
+  canAnimate: boolean;
+  /** Saves the shown journey as data; omitted when no single journey is shown */
+  onExportJourney?: (format: JourneyFormat) => void;
+  onImportJourney: (file: File) => void;
+  /** Copies a link to what is shown, optionally with the journey itself embedded */
+  onCopyLink?: (withJourney: boolean) => Promise<void>;
+  /** Whether the address re-runs a search (imported journeys can only be shared with their data) */
+  canLinkSearch?: boolean;
+  canLinkJourney?: boolean;
+  /** Animation being captured while playback runs, if any */
+  recording: AnimationFormat | null;
+  error?: string | null;
+}
+
+const PNG_SCALES = [1, 2, 4];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  canExportMap,
+  onExportImage,
+  onExportAnimation,
+  canAnimate,
+  onExportJourney,
+  onImportJourney,
+  onCopyLink,
+  canLinkSearch,
+  canLinkJourney,
+  recording,
+  error
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [copied, setCopied] = useState<'search' | 'journey' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCopy = async (withJourney: boolean) => {
+    if (!onCopyLink) return;
+    try {
+      await onCopyLink(withJourney);
+      setCopied(withJourney ? 'journey' : 'search');
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      // Reported through `error`
+    }
+  };
+
+  const optionClass =
+    'flex-1 px-1.5 py-1 text-[9px] font-black uppercase border border-black bg-white text-black hover:bg-black hover:text-white transition-colors';
+
+  return (
+    <div className="absolute bottom-10 left-10 z-20 font-mono flex flex-col-reverse items-start">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={!!recording}
+        className={`flex items-center gap-2 px-2 py-1 border border-black text-[9px] font-black uppercase transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+          isOpen || recording ? 'bg-black text-white' : 'bg-white text-black hover:bg-black hover:text-white'
+        }`}
+        title={error ?? 'Export the map or import a journey'}
+      >
+        {recording ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+        {recording ? `Recording_${recording}` : 'Import_Export'}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && !recording && (
+          <motion.div
+            initial={{ y: 5, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="mb-1 w-56 bg-white border border-black p-2 flex flex-col gap-2 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          >
+            {canExportMap && (
+              <div className="flex flex-col gap-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Snapshot</label>
+                <div className="flex gap-1">
+                  <button onClick={() => onExportImage('svg', 1)} className={optionClass}>SVG</button>
+                  <button onClick={() => onExportImage('png', scale)} className={optionClass}>PNG @{scale}x</button>
+                </div>
+                <div className="flex gap-1">
+                  {PNG_SCALES.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => setScale(value)}
+                      className={`flex-1 px-1 py-0.5 text-[8px] font-bold uppercase border border-black/20 ${
+                        value === scale ? 'bg-black text-white' : 'bg-white text-black hover:bg-black/5'
+                      }`}
+                    >
+                      {value}x
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {canExportMap && canAnimate && (
+              <div className="flex flex-col gap-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Playback (records from the start)</label>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => {
+                      setIsOpen(false);
+                      onExportAnimation('gif');
+                    }}
+                    className={optionClass}
+                  >
+                    GIF
+                  </button>
+                  <button
+                    onClick={() => {
+                      setIsOpen(false);
+                      onExportAnimation('webm');
+                    }}
+                    className={optionClass}
+                  >
+                    WebM
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {onExportJourney && (
+              <div className="flex flex-col gap-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Journey data</label>
+                <div className="flex gap-1">
+                  {JOURNEY_FORMATS.map(format => (
+                    <button key={format} onClick={() => onExportJourney(format)} className={optionClass}>
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {onCopyLink && (canLinkSearch || canLinkJourney) && (
+              <div className="flex flex-col gap-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Share link</label>
+                <div className="flex gap-1">
+                  {canLinkSearch && (
+                    <button onClick={() => handleCopy(false)} className={`flex items-center justify-center gap-1 ${optionClass}`}>
+                      {copied === 'search' ? <Check size={10} /> : <Link size={10} />}
+                      {copied === 'search' ? 'Copied' : 'Search'}
+                    </button>
+                  )}
+                  {canLinkJourney && (
+                    <button
+                      onClick={() => handleCopy(true)}
+                      className={`flex items-center justify-center gap-1 ${optionClass}`}
+                      title="Embeds the journey, so the link opens without asking a provider"
+                    >
+                      {copied === 'journey' ? <Check size={10} /> : <Link size={10} />}
+                      {copied === 'journey' ? 'Copied' : '+ Journey'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-1">
+              <label className="text-[9px] font-bold text-black/60 uppercase">Import</label>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={`flex items-center justify-center gap-1.5 ${optionClass}`}
+              >
+                <Upload size={10} />
+                JSON / GeoJSON / KML
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.geojson,.kml,application/json,application/geo+json,application/vnd.google-earth.kml+xml"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (!file) return;
+                  setIsOpen(false);
+                  onImportJourney(file);
+                }}
+              />
+            </div>
+
+            {error && (
+              <p className="text-[9px] font-bold text-red-600 uppercase leading-tight">
+                Export failed: {error}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
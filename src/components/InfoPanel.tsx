@@ -1,16 +1,228 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, MapPin, Anchor, Landmark } from 'lucide-react';
-import type { WordJourney } from '@/types';
+import { X, MapPin, Anchor, Landmark, ChevronDown, ChevronRight, GitBranch, AlertTriangle } from 'lucide-react';
+import type { WordJourney, JourneyStep, CognateFanout } from '@/types';
+import { getChildrenByParent, getParentOrder, isBranchingJourney, ORIGIN_ORDER } from '@/utils/journeyTree';
+import { getComparisonColor } from '@/utils/comparison';
+import { formatDateRange } from '@/utils/century';
+
+interface ComparisonTabs {
+  words: string[];
+  active: number;
+  onSelect: (index: number) => void;
+}
 
 interface InfoPanelProps {
-  data: WordJourney;
+  data: WordJourney | CognateFanout;
   onClose: () => void;
   activeWaypointIndex: number;
+  /** Selects a descendant in fan-out mode (-1 clears the selection) */
+  onSelectWaypoint?: (index: number) => void;
+  /** One tab per compared word; `data` is the active one */
+  tabs?: ComparisonTabs;
+  /** Orders (0 = origin) this journey shares with another compared journey */
+  sharedOrders?: Set<number>;
 }
 
-export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypointIndex }) => {
-  if (!data) return null;
+const SharedBadge: React.FC = () => (
+  <span className="text-[8px] px-1 border border-black font-black uppercase tracking-tighter">Shared</span>
+);
+
+const STAGE_TREE_CLASS = 'relative pl-6 space-y-6 before:absolute before:left-[3px] before:top-2 before:bottom-2 before:w-[1px] before:bg-black';
+
+const NO_STEPS: JourneyStep[] = [];
+
+const isCognateFanout = (data: WordJourney | CognateFanout): data is CognateFanout => 'descendants' in data;
+
+export const InfoPanel: React.FC<InfoPanelProps> = ({
+  data,
+  onClose,
+  activeWaypointIndex,
+  onSelectWaypoint,
+  tabs,
+  sharedOrders
+}) => {
+  const [collapsedBranches, setCollapsedBranches] = useState<Set<number>>(new Set());
+  const journey = isCognateFanout(data) ? NO_STEPS : data.journey;
+  const childrenByParent = useMemo(() => getChildrenByParent(journey), [journey]);
+  const isBranching = useMemo(() => isBranchingJourney(journey), [journey]);
+
+  const consensus = isCognateFanout(data) ? undefined : data.consensus;
+  const consensusByOrder = new Map(consensus?.stages.map(stage => [stage.order, stage]));
+
+  const indexByOrder = new Map(journey.map((step, idx) => [step.order, idx]));
+  const wordByOrder = new Map([[ORIGIN_ORDER, data.origin.word], ...journey.map(step => [step.order, step.word] as [number, string])]);
+
+  const toggleBranch = (order: number) => {
+    setCollapsedBranches(prev => {
+      const next = new Set(prev);
+      if (next.has(order)) next.delete(order); else next.add(order);
+      return next;
+    });
+  };
+
+  // Stages where the consensus providers gave different answers
+  const renderDisagreements = (order: number) => {
+    const stage = consensusByOrder.get(order);
+    if (!stage || stage.disagreements.length === 0) return null;
+
+    return (
+      <div className="mt-2 border border-dashed border-black bg-black/5 p-2 space-y-0.5">
+        <p className="flex items-center gap-1 text-[9px] font-black uppercase">
+          <AlertTriangle size={10} />
+          Providers_Disagree // {Math.round(stage.agreement * 100)}% agreement
+        </p>
+        {stage.disagreements.map(text => (
+          <p key={text} className="text-[9px] text-black/70">{text}</p>
+        ))}
+      </div>
+    );
+  };
+
+  const renderStage = (step: JourneyStep) => {
+    const idx = indexByOrder.get(step.order) ?? 0;
+    const parentOrder = getParentOrder(step);
+
+    return (
+      <div
+        key={`stage-${step.order}`}
+        className={`relative transition-all ${idx <= activeWaypointIndex ? 'opacity-100' : 'opacity-20'}`}
+      >
+        <div
+          className={`absolute -left-[27px] top-1 w-2 h-2 border border-black transition-colors ${
+            idx <= activeWaypointIndex ? 'bg-black' : 'bg-transparent'
+          }`}
+        />
+        <div
+          className={`p-4 border transition-all ${
+            activeWaypointIndex === idx
+              ? 'bg-white border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'
+              : 'bg-transparent border-black/20 hover:border-black'
+          }`}
+        >
+          <div className="flex justify-between items-start mb-1">
+            <p className="text-xl font-doto text-black">"{step.word}"</p>
+            <div className="flex items-center gap-1.5">
+              {sharedOrders?.has(step.order) && <SharedBadge />}
+              {step.routeType === 'sea' ? (
+                <Anchor size={14} className="text-black" />
+              ) : (
+                <Landmark size={14} className="text-black" />
+              )}
+            </div>
+          </div>
+          <p
+            className="text-[9px] text-black/60 font-bold uppercase mb-2"
+            title={step.dates && formatDateRange(step.dates)}
+          >
+            Stage_{step.order} // {step.language} // {step.century}
+            {isBranching && ` // FROM "${wordByOrder.get(parentOrder) ?? '?'}"`}
+          </p>
+          {step.pronunciation && (
+            <p className="text-[10px] text-black font-bold mb-2">
+              IPA: [{step.pronunciation}]
+            </p>
+          )}
+          <p className="text-[10px] text-black/80 leading-normal">
+            {step.notes}
+          </p>
+          {renderDisagreements(step.order)}
+        </div>
+      </div>
+    );
+  };
+
+  // A chain of stages stays on one level until it forks; each fork opens collapsible branches
+  const renderChain = (parentOrder: number): React.ReactNode => {
+    const children = childrenByParent.get(parentOrder) ?? [];
+    if (children.length === 0) return null;
+
+    if (children.length === 1) {
+      return (
+        <React.Fragment key={`chain-${children[0].order}`}>
+          {renderStage(children[0])}
+          {renderChain(children[0].order)}
+        </React.Fragment>
+      );
+    }
+
+    return children.map(child => {
+      const isCollapsed = collapsedBranches.has(child.order);
+      return (
+        <div key={`branch-${child.order}`} className="relative space-y-3">
+          <button
+            onClick={() => toggleBranch(child.order)}
+            className="flex items-center gap-1 text-[9px] font-black uppercase border border-black px-2 py-0.5 bg-white/40 hover:bg-black hover:text-white transition-colors"
+          >
+            {isCollapsed ? <ChevronRight size={10} /> : <ChevronDown size={10} />}
+            <GitBranch size={10} />
+            Branch // {child.language} "{child.word}"
+          </button>
+          {!isCollapsed && (
+            <div className={STAGE_TREE_CLASS}>
+              {renderStage(child)}
+              {renderChain(child.order)}
+            </div>
+          )}
+        </div>
+      );
+    });
+  };
+
+  const renderDescendants = (fanout: CognateFanout) => (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="bg-black text-white px-2 py-1 inline-block text-[10px] font-bold uppercase">
+          02_Descendants
+        </div>
+        <span className="text-[9px] px-2 py-0.5 border border-black font-black uppercase tracking-tighter">
+          {fanout.descendants.length}_LANGUAGES
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {fanout.descendants.map((descendant, idx) => (
+          <button
+            key={`descendant-${idx}`}
+            onClick={() => onSelectWaypoint?.(activeWaypointIndex === idx ? -1 : idx)}
+            className={`w-full text-left p-4 border transition-all ${
+              activeWaypointIndex === idx
+                ? 'bg-white border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'
+                : 'bg-transparent border-black/20 hover:border-black'
+            }`}
+          >
+            <div className="flex justify-between items-start mb-1">
+              <p className="text-xl font-doto text-black">"{descendant.word}"</p>
+              {descendant.routeType === 'sea' ? (
+                <Anchor size={14} className="text-black" />
+              ) : (
+                <Landmark size={14} className="text-black" />
+              )}
+            </div>
+            <p
+              className="text-[9px] text-black/60 font-bold uppercase mb-2"
+              title={descendant.dates && formatDateRange(descendant.dates)}
+            >
+              {descendant.language} // {descendant.century} // {descendant.location.name}
+            </p>
+            {descendant.pronunciation && (
+              <p className="text-[10px] text-black font-bold mb-2">
+                IPA: [{descendant.pronunciation}]
+              </p>
+            )}
+            {descendant.meaning && (
+              <p className="text-[10px] text-black mb-1">
+                MEANING: <span className="font-bold">{descendant.meaning}</span>
+              </p>
+            )}
+            <p className="text-[10px] text-black/80 leading-normal">
+              {descendant.notes}
+            </p>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
 
   return (
     <motion.div
@@ -24,11 +236,19 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypo
       <div className="p-6 border-b border-black flex justify-between items-start">
         <div>
           <h1 className="text-4xl font-doto text-black mb-1 capitalize leading-none">
-            {data.word}
+            {isCognateFanout(data) ? data.root : data.word}
           </h1>
           <p className="text-[10px] text-black font-bold tracking-widest uppercase">
-            / Definition: {data.currentMeaning}
+            {isCognateFanout(data)
+              ? `/ Root: ${data.origin.language} // ${data.origin.meaning}`
+              : `/ Definition: ${data.currentMeaning}`}
           </p>
+          {consensus && (
+            <p className="text-[9px] text-black/60 font-bold uppercase mt-1">
+              / Consensus: {Math.round(consensus.score * 100)}% // {consensus.providers.join(', ')}
+              {consensus.failed.length > 0 && ` // failed: ${consensus.failed.map(f => f.provider).join(', ')}`}
+            </p>
+          )}
         </div>
         <button
           onClick={onClose}
@@ -38,6 +258,24 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypo
         </button>
       </div>
 
+      {/* Comparison tabs */}
+      {tabs && (
+        <div className="flex border-b border-black overflow-x-auto no-scrollbar">
+          {tabs.words.map((word, idx) => (
+            <button
+              key={`tab-${idx}`}
+              onClick={() => tabs.onSelect(idx)}
+              className={`flex items-center gap-1.5 px-4 py-2 text-[10px] font-black uppercase border-r border-black whitespace-nowrap transition-colors ${
+                tabs.active === idx ? 'bg-black text-white' : 'text-black hover:bg-black/5'
+              }`}
+            >
+              <span className="w-2 h-2 border border-white" style={{ backgroundColor: getComparisonColor(idx) }} />
+              {word}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
         {/* Origin Section */}
@@ -46,8 +284,14 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypo
             00_Origin_Point
           </div>
           <div className="border border-black p-4 bg-white/20">
-            <p className="text-2xl font-doto text-black">"{data.origin.word}"</p>
-            <p className="text-[10px] text-black/60 font-bold mb-2 uppercase">
+            <div className="flex justify-between items-start">
+              <p className="text-2xl font-doto text-black">"{data.origin.word}"</p>
+              {sharedOrders?.has(ORIGIN_ORDER) && <SharedBadge />}
+            </div>
+            <p
+              className="text-[10px] text-black/60 font-bold mb-2 uppercase"
+              title={data.origin.dates && formatDateRange(data.origin.dates)}
+            >
               {data.origin.language} // {data.origin.century}
             </p>
             <p className="text-black text-xs leading-relaxed border-t border-black/10 pt-2">
@@ -57,6 +301,7 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypo
               <MapPin size={10} />
               <span>LOC: {data.origin.location.name}</span>
             </div>
+            {renderDisagreements(ORIGIN_ORDER)}
           </div>
         </section>
 
@@ -70,59 +315,23 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ data, onClose, activeWaypo
           </p>
         </section>
 
-        {/* Migration Log */}
-        <section className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="bg-black text-white px-2 py-1 inline-block text-[10px] font-bold uppercase">
-              02_Migration_Log
+        {/* Migration Log (or the descendant list of a cognate fan-out) */}
+        {isCognateFanout(data) ? renderDescendants(data) : (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="bg-black text-white px-2 py-1 inline-block text-[10px] font-bold uppercase">
+                02_Migration_Log
+              </div>
+              <span className="text-[9px] px-2 py-0.5 border border-black font-black uppercase tracking-tighter">
+                {data.routeSummary}_ROUTE
+              </span>
             </div>
-            <span className="text-[9px] px-2 py-0.5 border border-black font-black uppercase tracking-tighter">
-              {data.routeSummary}_ROUTE
-            </span>
-          </div>
 
-          <div className="relative pl-6 space-y-6 before:absolute before:left-[3px] before:top-2 before:bottom-2 before:w-[1px] before:bg-black">
-            {data.journey.map((step, idx) => (
-              <div
-                key={idx}
-                className={`relative transition-all ${idx <= activeWaypointIndex ? 'opacity-100' : 'opacity-20'}`}
-              >
-                <div
-                  className={`absolute -left-[27px] top-1 w-2 h-2 border border-black transition-colors ${
-                    idx <= activeWaypointIndex ? 'bg-black' : 'bg-transparent'
-                  }`}
-                />
-                <div
-                  className={`p-4 border transition-all ${
-                    activeWaypointIndex === idx
-                      ? 'bg-white border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'
-                      : 'bg-transparent border-black/20 hover:border-black'
-                  }`}
-                >
-                  <div className="flex justify-between items-start mb-1">
-                    <p className="text-xl font-doto text-black">"{step.word}"</p>
-                    {step.routeType === 'sea' ? (
-                      <Anchor size={14} className="text-black" />
-                    ) : (
-                      <Landmark size={14} className="text-black" />
-                    )}
-                  </div>
-                  <p className="text-[9px] text-black/60 font-bold uppercase mb-2">
-                    Stage_{idx + 1} // {step.language} // {step.century}
-                  </p>
-                  {step.pronunciation && (
-                    <p className="text-[10px] text-black font-bold mb-2">
-                      IPA: [{step.pronunciation}]
-                    </p>
-                  )}
-                  <p className="text-[10px] text-black/80 leading-normal">
-                    {step.notes}
-                  </p>
-                </div>
-              </div>
-            ))}
-          </div>
-        </section>
+            <div className={STAGE_TREE_CLASS}>
+              {renderChain(ORIGIN_ORDER)}
+            </div>
+          </section>
+        )}
 
         {/* Fun Fact */}
         {data.funFact && (
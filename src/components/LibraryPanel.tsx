@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, History, FolderOpen, Play, Plus, Trash2, Pencil, Download, Upload } from 'lucide-react';
+import type { HistoryEntry, JourneyCollection, WordJourney } from '@/types';
+import {
+  addToCollection,
+  clearHistory,
+  createCollection,
+  deleteCollection,
+  deleteHistoryEntry,
+  importCollections,
+  listCollections,
+  listHistory,
+  removeFromCollection,
+  renameCollection,
+  serializeCollections
+} from '@/services/journeyLibrary';
+import { isIndexedDbAvailable } from '@/services/idb';
+import { downloadBlob, getExportFilename } from '@/services/mapExport';
+import { MAX_COMPARE } from '@/utils/comparison';
+
+interface LibraryPanelProps {
+  onClose: () => void;
+  /** Shows journeys on the map: one on its own, several compared */
+  onOpen: (journeys: WordJourney[]) => void;
+  /** Journey on the map, offered for adding to a collection */
+  currentJourney: WordJourney | null;
+  /** Changes whenever a lookup was recorded, so the history is read again */
+  historyVersion: number;
+}
+
+type Tab = 'history' | 'collections';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ onClose, onOpen, currentJourney, historyVersion }) => {
+  const [tab, setTab] = useState<Tab>('history');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [collections, setCollections] = useState<JourneyCollection[]>([]);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const available = isIndexedDbAvailable();
+
+  // Every change goes through IndexedDB and is read back, so the lists always show what is stored
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      const [nextHistory, nextCollections] = await Promise.all([listHistory(), listCollections()]);
+      setHistory(nextHistory);
+      setCollections(nextCollections);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'LIBRARY_FAILED');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (available) run(async () => {});
+  }, [available, run, historyVersion]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await createCollection(newName);
+      setNewName('');
+    });
+  };
+
+  const handleExport = (items: JourneyCollection[], title: string) => {
+    const blob = new Blob([serializeCollections(items)], { type: 'application/json' });
+    downloadBlob(blob, getExportFilename({ title, lines: [] }, 'json'));
+  };
+
+  const tabClass = (value: Tab) =>
+    `flex-1 flex items-center justify-center gap-1.5 py-2 text-[10px] font-black uppercase border border-black transition-colors ${
+      tab === value ? 'bg-black text-white' : 'bg-white text-black hover:bg-black/5'
+    }`;
+
+  return (
+    <motion.div
+      initial={{ x: '-100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '-100%' }}
+      transition={{ type: 'spring', damping: 30, stiffness: 200 }}
+      className="fixed left-0 top-0 h-full w-[340px] bg-mint/95 border-r border-black backdrop-blur-xl z-30 flex flex-col font-mono"
+    >
+      {/* Header */}
+      <div className="p-6 border-b border-black flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-black uppercase tracking-tight text-black">Library</h2>
+          <p className="text-[9px] font-bold text-black/60 uppercase">Stored in this browser</p>
+        </div>
+        <button onClick={onClose} className="p-1 border border-black hover:bg-black hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex gap-1 px-6 pt-4">
+        <button onClick={() => setTab('history')} className={tabClass('history')}>
+          <History size={12} />
+          History ({history.length})
+        </button>
+        <button onClick={() => setTab('collections')} className={tabClass('collections')}>
+          <FolderOpen size={12} />
+          Collections ({collections.length})
+        </button>
+      </div>
+
+      {error && (
+        <p className="mx-6 mt-3 text-[9px] font-bold text-red-600 uppercase leading-tight">{error}</p>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-2">
+        {!available && (
+          <p className="text-[10px] font-bold uppercase text-black/60">This browser has no IndexedDB; nothing can be saved.</p>
+        )}
+
+        {available && tab === 'history' && (
+          <>
+            {history.length === 0 && (
+              <p className="text-[10px] font-bold uppercase text-black/60">Traced words appear here.</p>
+            )}
+            {history.map(entry => (
+              <HistoryRow
+                key={entry.id}
+                entry={entry}
+                collections={collections}
+                onOpen={() => onOpen([entry.journey])}
+                onAdd={(collection) => run(() => addToCollection(collection, entry.journey))}
+                onDelete={() => run(() => deleteHistoryEntry(entry.id))}
+              />
+            ))}
+            {history.length > 0 && (
+              <button
+                onClick={() => run(clearHistory)}
+                className="w-full mt-4 py-1.5 text-[9px] font-black uppercase border border-black bg-white hover:bg-black hover:text-white transition-colors"
+              >
+                Clear_History
+              </button>
+            )}
+          </>
+        )}
+
+        {available && tab === 'collections' && (
+          <>
+            <form onSubmit={handleCreate} className="flex gap-1">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New collection, e.g. Food words"
+                className="flex-1 min-w-0 px-2 py-1.5 text-[10px] font-bold border border-black bg-white focus:outline-none"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-2 border border-black bg-black text-white disabled:opacity-30"
+                title="Create collection"
+              >
+                <Plus size={12} />
+              </button>
+            </form>
+
+            <div className="flex gap-1">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-1.5 py-1 text-[9px] font-black uppercase border border-black bg-white hover:bg-black hover:text-white transition-colors"
+              >
+                <Upload size={10} />
+                Import
+              </button>
+              <button
+                onClick={() => handleExport(collections, 'collections')}
+                disabled={collections.length === 0}
+                className="flex-1 flex items-center justify-center gap-1.5 py-1 text-[9px] font-black uppercase border border-black bg-white hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <Download size={10} />
+                Export_All
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) run(async () => importCollections(await file.text()));
+                }}
+              />
+            </div>
+
+            {collections.map(collection => (
+              <CollectionCard
+                key={collection.id}
+                collection={collection}
+                currentJourney={currentJourney}
+                onOpen={onOpen}
+                onRename={(name) => run(() => renameCollection(collection, name))}
+                onAdd={(journey) => run(() => addToCollection(collection, journey))}
+                onRemove={(index) => run(() => removeFromCollection(collection, index))}
+                onDelete={() => run(() => deleteCollection(collection.id))}
+                onExport={() => handleExport([collection], collection.name)}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+interface HistoryRowProps {
+  entry: HistoryEntry;
+  collections: JourneyCollection[];
+  onOpen: () => void;
+  onAdd: (collection: JourneyCollection) => void;
+  onDelete: () => void;
+}
+
+const HistoryRow: React.FC<HistoryRowProps> = ({ entry, collections, onOpen, onAdd, onDelete }) => (
+  <div className="flex items-stretch border border-black bg-white">
+    <button onClick={onOpen} className="flex-1 min-w-0 text-left px-2 py-1.5 hover:bg-black/5" title="Show on the map">
+      <p className="text-[11px] font-black uppercase truncate">{entry.journey.word}</p>
+      <p className="text-[8px] font-bold text-black/50 uppercase truncate">
+        {entry.provider}{entry.model ? ` / ${entry.model}` : ''} // {entry.responseLanguage ?? 'English'} // {formatDate(entry.viewedAt)}
+      </p>
+    </button>
+    {collections.length > 0 && (
+      <select
+        value=""
+        onChange={(e) => {
+          const collection = collections.find(c => c.id === e.target.value);
+          if (collection) onAdd(collection);
+        }}
+        className="w-7 border-l border-black bg-white text-[9px] font-bold cursor-pointer appearance-none text-center"
+        title="Add to collection"
+      >
+        <option value="">+</option>
+        {collections.map(collection => (
+          <option key={collection.id} value={collection.id}>{collection.name}</option>
+        ))}
+      </select>
+    )}
+    <button onClick={onDelete} className="px-2 border-l border-black hover:bg-black hover:text-white" title="Remove from history">
+      <X size={10} />
+    </button>
+  </div>
+);
+
+interface CollectionCardProps {
+  collection: JourneyCollection;
+  currentJourney: WordJourney | null;
+  onOpen: (journeys: WordJourney[]) => void;
+  onRename: (name: string) => void;
+  onAdd: (journey: WordJourney) => void;
+  onRemove: (index: number) => void;
+  onDelete: () => void;
+  onExport: () => void;
+}
+
+const CollectionCard: React.FC<CollectionCardProps> = ({
+  collection,
+  currentJourney,
+  onOpen,
+  onRename,
+  onAdd,
+  onRemove,
+  onDelete,
+  onExport
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(collection.name);
+  const { journeys } = collection;
+  const iconButtonClass = 'p-1 border border-black bg-white hover:bg-black hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="border border-black bg-white p-2 space-y-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+      <div className="flex items-center gap-1">
+        {isRenaming ? (
+          <form
+            className="flex-1 min-w-0"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setIsRenaming(false);
+              if (name.trim() && name.trim() !== collection.name) onRename(name);
+            }}
+          >
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => setIsRenaming(false)}
+              className="w-full px-1 py-0.5 text-[11px] font-black uppercase border border-black focus:outline-none"
+            />
+          </form>
+        ) : (
+          <p className="flex-1 min-w-0 text-[11px] font-black uppercase truncate">
+            {collection.name} <span className="text-black/40">({journeys.length})</span>
+          </p>
+        )}
+        <button
+          onClick={() => onOpen(journeys)}
+          disabled={journeys.length === 0 || journeys.length > MAX_COMPARE}
+          className={iconButtonClass}
+          title={journeys.length > MAX_COMPARE ? `Up to ${MAX_COMPARE} journeys can be shown together` : 'Show on the map'}
+        >
+          <Play size={10} />
+        </button>
+        <button
+          onClick={() => {
+            setName(collection.name);
+            setIsRenaming(true);
+          }}
+          className={iconButtonClass}
+          title="Rename"
+        >
+          <Pencil size={10} />
+        </button>
+        <button onClick={onExport} className={iconButtonClass} title="Export as JSON">
+          <Download size={10} />
+        </button>
+        <button onClick={onDelete} className={iconButtonClass} title="Delete collection">
+          <Trash2 size={10} />
+        </button>
+      </div>
+
+      {journeys.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {journeys.map((journey, idx) => (
+            <span key={`${journey.word}-${idx}`} className="flex items-center border border-black text-[9px] font-bold uppercase">
+              <button onClick={() => onOpen([journey])} className="px-1.5 py-0.5 hover:bg-black/5" title="Show on the map">
+                {journey.word}
+              </button>
+              <button onClick={() => onRemove(idx)} className="px-1 py-0.5 border-l border-black hover:bg-black hover:text-white" title="Remove">
+                <X size={8} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {currentJourney && (
+        <button
+          onClick={() => onAdd(currentJourney)}
+          className="w-full flex items-center justify-center gap-1 py-1 text-[9px] font-black uppercase border border-dashed border-black hover:bg-black hover:text-white transition-colors"
+        >
+          <Plus size={10} />
+          Add "{currentJourney.word}"
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,16 @@
 import React from 'react';
 import { Play, Pause, FastForward, Rewind, RotateCcw } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { formatYear } from '@/utils/century';
+
+export interface TimeScrubber {
+  startYear: number;
+  endYear: number;
+  currentYear: number;
+  /** Years at which stages are reached, marked along the track */
+  ticks: number[];
+  onScrub: (year: number) => void;
+}
 
 interface PlaybackControlsProps {
   isPlaying: boolean;
@@ -13,6 +23,8 @@ interface PlaybackControlsProps {
   progress: number;
   canGoNext: boolean;
   canGoPrev: boolean;
+  /** Year axis to drag through; replaces the progress bar when the journey can be dated */
+  scrubber?: TimeScrubber;
 }
 
 export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
@@ -26,6 +38,7 @@ export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   progress,
   canGoNext,
   canGoPrev,
+  scrubber,
 }) => {
   return (
     <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-4 font-mono">
@@ -87,15 +100,53 @@ export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
         </div>
       </motion.div>
 
-      {/* Progress bar */}
-      <div className="w-64 h-1 border border-black bg-white overflow-hidden">
-        <motion.div
-          className="h-full bg-black"
-          initial={{ width: 0 }}
-          animate={{ width: `${progress * 100}%` }}
-          transition={{ duration: 0.3 }}
+      {scrubber ? renderScrubber(scrubber) : (
+        /* Progress bar */
+        <div className="w-64 h-1 border border-black bg-white overflow-hidden">
+          <motion.div
+            className="h-full bg-black"
+            initial={{ width: 0 }}
+            animate={{ width: `${progress * 100}%` }}
+            transition={{ duration: 0.3 }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+function renderScrubber({ startYear, endYear, currentYear, ticks, onScrub }: TimeScrubber) {
+  const span = Math.max(endYear - startYear, 1);
+  const percent = (year: number) => ((year - startYear) / span) * 100;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[9px] font-black uppercase whitespace-nowrap">{formatYear(startYear)}</span>
+      <div className="relative w-80 h-4">
+        <div className="absolute top-1/2 left-0 right-0 h-1 -translate-y-1/2 border border-black bg-white overflow-hidden">
+          <div className="h-full bg-black" style={{ width: `${percent(currentYear)}%` }} />
+        </div>
+        {ticks.map(tick => (
+          <div
+            key={tick}
+            className={`absolute top-0 w-[2px] h-4 -translate-x-1/2 ${tick <= currentYear ? 'bg-black' : 'bg-black/30'}`}
+            style={{ left: `${percent(tick)}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={startYear}
+          max={endYear}
+          step={1}
+          value={Math.round(currentYear)}
+          onChange={e => onScrub(Number(e.target.value))}
+          className="absolute inset-0 w-full opacity-0 cursor-ew-resize"
+          aria-label="Year"
         />
       </div>
+      <span className="bg-black text-white px-1.5 py-0.5 text-[9px] font-black uppercase whitespace-nowrap">
+        {formatYear(Math.round(currentYear))}
+      </span>
     </div>
   );
-};
+}
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Map as MapIcon } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { PROJECTIONS, getProjectionOption, type ProjectionId } from '@/utils/projections';
+
+interface ProjectionControlProps {
+  projection: ProjectionId;
+  onChange: (projection: ProjectionId) => void;
+}
+
+export const ProjectionControl: React.FC<ProjectionControlProps> = ({ projection, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="font-mono">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-2 px-2 py-1 border border-black text-[9px] font-black uppercase transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+          isOpen ? 'bg-black text-white' : 'bg-white text-black hover:bg-black hover:text-white'
+        }`}
+        title="Map projection"
+      >
+        <MapIcon size={12} />
+        Proj // {getProjectionOption(projection).label}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ y: -5, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="mt-1 bg-white border border-black p-1 flex flex-col shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          >
+            {PROJECTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => {
+                  onChange(option.id);
+                  setIsOpen(false);
+                }}
+                className={`px-1.5 py-1 text-left text-[9px] font-black uppercase transition-colors ${
+                  option.id === projection ? 'bg-black text-white' : 'bg-white text-black hover:bg-black/5'
+                }`}
+              >
+                {option.label}
+                {option.isGlobe && <span className="ml-1 font-bold opacity-60">// drag_to_rotate</span>}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,9 +1,22 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Search, Loader2, ChevronDown, Cpu, Settings, X, CheckCircle2, XCircle, RefreshCw } from 'lucide-react';
+import { Search, Loader2, ChevronDown, Cpu, Settings, X, CheckCircle2, XCircle, RefreshCw, Network, Users } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { AIProvider, AIProviderConfig } from '@/types';
+import { getProvider, listProviders, registerProvidersFromConfig, requiresKey } from '@/services/aiProvider';
+import { parseHeaders, type ProviderCategory, type ProviderDefinition, type ProviderFieldSpec, type ProviderModel } from '@/services/providerRegistry';
+import { shareQueryKey, type ShareQuery } from '@/services/shareLinks';
+import { MAX_COMPARE } from '@/utils/comparison';
+
+const SUGGESTIONS = ["tea", "coffee", "orange", "algorithm", "chocolate", "safari", "tea, chai", "coffee, cocoa"];
+
+const ROOT_SUGGESTIONS = [
+  { root: "caseus", language: "Latin" },
+  { root: "pater", language: "Latin" },
+  { root: "*mūs", language: "Proto-Indo-European" },
+  { root: "sukkar", language: "Arabic" },
+];
 
-const SUGGESTIONS = ["tea", "coffee", "orange", "algorithm", "chocolate", "safari"];
+type QueryMode = 'word' | 'root';
 
 const LANGUAGE_SUGGESTIONS = [
   "English",
@@ -29,129 +42,212 @@ interface CliAgentStatus {
   installed: boolean;
 }
 
-interface OllamaModel {
-  name: string;
-  size?: number;
-  modified_at?: string;
+interface ServerProviderStatus {
+  id: string;
+  env: string;
+  configured: boolean;
 }
 
-interface ProviderInfo {
-  id: AIProvider;
-  name: string;
-  desc: string;
-  needsKey?: boolean;
-  needsConfig?: boolean;
-  category: 'cli' | 'api' | 'local';
-}
+/** Fields set in the browser; keys stay on the server */
+type SettingsField = 'baseUrl' | 'model' | 'headers';
+type ProviderSettings = Partial<Record<SettingsField, string>>;
 
-const PROVIDERS: ProviderInfo[] = [
-  // CLI Agents (no key needed)
-  { id: 'gemini', name: 'Gemini CLI', desc: '1M tokens', category: 'cli' },
-  { id: 'claude', name: 'Claude CLI', desc: '200k tokens', category: 'cli' },
-  { id: 'codex', name: 'Codex CLI', desc: '128k', category: 'cli' },
-  { id: 'qwen', name: 'Qwen CLI', desc: 'General', category: 'cli' },
-  // APIs (need key)
-  { id: 'gemini-api', name: 'Gemini API', desc: 'Direct API', needsKey: true, category: 'api' },
-  { id: 'openai-api', name: 'OpenAI API', desc: 'GPT-4o-mini', needsKey: true, category: 'api' },
-  { id: 'anthropic-api', name: 'Anthropic API', desc: 'Claude Sonnet', needsKey: true, category: 'api' },
-  // Local
-  { id: 'ollama', name: 'Ollama', desc: 'Local LLM', needsConfig: true, category: 'local' },
-];
+// The offline mock is meant for the CLI, so it isn't offered here
+const CATEGORY_LABELS: Partial<Record<ProviderCategory, string>> = {
+  cli: 'CLI Agents (Local)',
+  api: 'Direct APIs (Server Key)',
+  local: 'Local Models'
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ProviderCategory[];
+
+const settingsFields = (definition: ProviderDefinition) =>
+  definition.fields.filter((spec): spec is ProviderFieldSpec & { field: SettingsField } => spec.field !== 'apiKey');
 
 const STORAGE_KEY = 'wanderword_provider_config';
 
+interface SavedConfig {
+  provider?: AIProvider;
+  responseLanguage?: string;
+  consensusProviders?: AIProvider[];
+  /** Base URL and model per provider id */
+  providerSettings?: Record<string, ProviderSettings>;
+  /** Older saves kept Ollama's settings on their own */
+  ollamaConfig?: ProviderSettings;
+  apiKeys?: unknown;
+}
+
+const readSavedConfig = (): SavedConfig => {
+  try {
+    const saved: SavedConfig = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (saved.ollamaConfig && !saved.providerSettings) saved.providerSettings = { ollama: saved.ollamaConfig };
+    return saved;
+  } catch {
+    return {};
+  }
+};
+
+// Empty fields are left out so the provider's defaults apply
+const withSettings = (config: AIProviderConfig, settings: ProviderSettings = {}): AIProviderConfig => {
+  const { headers, ...fields } = settings;
+  const filled = Object.entries(fields).filter(([, value]) => value?.trim());
+  return {
+    ...config,
+    ...Object.fromEntries(filled),
+    ...(headers?.trim() ? { headers: parseHeaders(headers) } : {})
+  };
+};
+
+/**
+ * Config for a lookup started outside the search box (e.g. a shared link):
+ * the given provider and language, else the saved ones, with the provider's saved settings.
+ */
+export function loadSavedProviderConfig(provider?: AIProvider, responseLanguage?: string): AIProviderConfig {
+  const saved = readSavedConfig();
+  const id = provider ?? saved.provider ?? 'gemini';
+  return withSettings({
+    provider: id,
+    timeout: 90,
+    responseLanguage: responseLanguage ?? saved.responseLanguage ?? 'English'
+  }, saved.providerSettings?.[id]);
+}
+
 interface SearchInputProps {
-  onSearch: (word: string, config: AIProviderConfig) => void;
+  /** `consensus` lists further providers to ask and merge with the selected one */
+  onSearch: (word: string, config: AIProviderConfig, consensus?: AIProviderConfig[]) => void;
+  /** Several comma-separated words, overlaid on one map */
+  onCompare: (words: string[], config: AIProviderConfig, consensus?: AIProviderConfig[]) => void;
+  /** Cognate fan-out: descendants of a root across languages */
+  onSearchCognates: (root: string, sourceLanguage: string, config: AIProviderConfig) => void;
   isLoading: boolean;
+  /** Query shown on the map (e.g. opened from a link), mirrored into the input */
+  query?: ShareQuery | null;
 }
 
-export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading }) => {
+export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, onCompare, onSearchCognates, isLoading, query }) => {
   const [value, setValue] = useState('');
+  const [queryMode, setQueryMode] = useState<QueryMode>('word');
+  const [sourceLanguage, setSourceLanguage] = useState('Latin');
   const [provider, setProvider] = useState<AIProvider>('gemini');
   const [showProviders, setShowProviders] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
 
   // Settings state
-  const [apiKeys, setApiKeys] = useState<Record<string, string>>({
-    'gemini-api': '',
-    'openai-api': '',
-    'anthropic-api': '',
-  });
-  const [ollamaConfig, setOllamaConfig] = useState({
-    baseUrl: 'http://localhost:11434',
-    model: 'llama3'
-  });
+  const [providers, setProviders] = useState(listProviders);
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
   const [responseLanguage, setResponseLanguage] = useState('English');
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [consensusProviders, setConsensusProviders] = useState<AIProvider[]>([]);
+  const [useConsensus, setUseConsensus] = useState(false);
 
   // Dynamic status
   const [cliAgents, setCliAgents] = useState<CliAgentStatus[]>([]);
-  const [ollamaModels, setOllamaModels] = useState<OllamaModel[]>([]);
-  const [ollamaLoading, setOllamaLoading] = useState(false);
-  const [ollamaError, setOllamaError] = useState<string | null>(null);
+  const [serverKeys, setServerKeys] = useState<ServerProviderStatus[]>([]);
+  const [models, setModels] = useState<ProviderModel[]>([]);
+  const [modelsLoading, setModelsLoading] = useState(false);
+  const [modelsError, setModelsError] = useState<string | null>(null);
   const [saveNotification, setSaveNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
   // Load saved config
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const config = JSON.parse(saved);
-        if (config.apiKeys) setApiKeys(config.apiKeys);
-        if (config.ollamaConfig) setOllamaConfig(config.ollamaConfig);
-        if (config.provider) setProvider(config.provider);
-        if (config.responseLanguage) setResponseLanguage(config.responseLanguage);
-      }
-    } catch {}
+    const config = readSavedConfig();
+    // API keys used to be stored here; they now live on the server only
+    if (config.apiKeys) {
+      delete config.apiKeys;
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+      } catch {}
+    }
+    if (config.providerSettings) setProviderSettings(config.providerSettings);
+    if (config.provider) setProvider(config.provider);
+    if (config.responseLanguage) setResponseLanguage(config.responseLanguage);
+    if (config.consensusProviders) setConsensusProviders(config.consensusProviders);
   }, []);
 
+  // Mirror a query that didn't come from typing
+  const queryKey = shareQueryKey(query);
+  useEffect(() => {
+    if (!query) return;
+    if (query.type === 'root') {
+      setQueryMode('root');
+      setValue(query.root);
+      setSourceLanguage(query.language);
+    } else {
+      setQueryMode('word');
+      setValue(query.words.join(', '));
+    }
+  }, [queryKey]);
+
   // Check CLI agents on mount
   useEffect(() => {
     fetch('/api/cli-agents/check')
       .then(res => res.json())
       .then(data => setCliAgents(data.agents || []))
       .catch(() => setCliAgents([]));
+
+    // Providers declared on the server (providers.json, extra CLI agents) are registered here too
+    fetch('/api/providers')
+      .then(res => res.json())
+      .then(data => {
+        setServerKeys(data.providers || []);
+        registerProvidersFromConfig(data.declarations || []);
+        setProviders(listProviders());
+      })
+      .catch(() => setServerKeys([]));
   }, []);
 
-  // Fetch Ollama models
-  const fetchOllamaModels = useCallback(async () => {
-    setOllamaLoading(true);
-    setOllamaError(null);
+  const hasServerKey = (id: AIProvider) => serverKeys.find(k => k.id === id)?.configured ?? false;
+
+  // A saved custom provider shows as the default until the server's declarations arrive
+  const selectedProvider = providers.find(p => p.id === provider) ?? getProvider('gemini')!;
+  const selectedSettings = providerSettings[provider] ?? {};
+  const selectedFields = settingsFields(selectedProvider);
+
+  const updateSetting = (field: SettingsField, value: string) => {
+    setProviderSettings(prev => ({ ...prev, [provider]: { ...prev[provider], [field]: value } }));
+  };
+
+  // Fetch the selected provider's models, if it can list them
+  const fetchModels = useCallback(async () => {
+    setModelsError(null);
+    if (!selectedProvider.listModels) {
+      setModels([]);
+      return;
+    }
+    setModelsLoading(true);
     try {
-      const res = await fetch(`/api/ollama/tags?baseUrl=${encodeURIComponent(ollamaConfig.baseUrl)}`);
-      const data = await res.json();
-      if (data.error) {
-        setOllamaError(data.message || 'Ollama not available');
-        setOllamaModels([]);
-      } else {
-        setOllamaModels(data.models || []);
-        // Auto-select first model if current model not in list
-        if (data.models?.length && !data.models.find((m: OllamaModel) => m.name === ollamaConfig.model)) {
-          setOllamaConfig(c => ({ ...c, model: data.models[0].name }));
-        }
+      const config = withSettings({ provider: selectedProvider.id }, selectedSettings);
+      const list = await selectedProvider.listModels(config);
+      setModels(list);
+      // Auto-select first model if current model not in list
+      const current = config.model ?? selectedFields.find(spec => spec.field === 'model')?.default;
+      if (list.length && !list.some(m => m.name === current)) {
+        setProviderSettings(prev => ({ ...prev, [selectedProvider.id]: { ...prev[selectedProvider.id], model: list[0].name } }));
       }
-    } catch {
-      setOllamaError('Failed to connect to Ollama');
-      setOllamaModels([]);
+    } catch (error) {
+      setModelsError(error instanceof Error ? error.message : `Failed to connect to ${selectedProvider.name}`);
+      setModels([]);
     } finally {
-      setOllamaLoading(false);
+      setModelsLoading(false);
     }
-  }, [ollamaConfig.baseUrl, ollamaConfig.model]);
+  }, [selectedProvider, selectedSettings, selectedFields]);
 
-  // Fetch Ollama models when showing settings or switching to ollama
+  // Fetch models when showing settings or switching to a local provider; edits to
+  // the settings refetch on blur or Refresh rather than on every keystroke
   useEffect(() => {
-    if (showSettings || provider === 'ollama') {
-      fetchOllamaModels();
+    if (showSettings || selectedProvider.category === 'local') {
+      fetchModels();
     }
-  }, [showSettings, provider, fetchOllamaModels]);
+  }, [showSettings, selectedProvider]);
 
   // Save config
   const saveConfig = (showNotification = false) => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify({
-        apiKeys,
-        ollamaConfig,
+        providerSettings,
         provider,
-        responseLanguage
+        responseLanguage,
+        consensusProviders
       }));
       if (showNotification) {
         setSaveNotification({ type: 'success', message: 'Settings saved' });
@@ -167,30 +263,50 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (value.trim() && !isLoading) {
+    if (!value.trim() || isLoading) return;
+
+    if (queryMode === 'root') {
+      if (sourceLanguage.trim()) handleCognateSearch(value.trim(), sourceLanguage.trim());
+    } else {
       handleSearch(value.trim());
     }
   };
 
-  const handleSearch = (word: string) => {
-    const providerInfo = PROVIDERS.find(p => p.id === provider)!;
-    const config: AIProviderConfig = {
-      provider,
-      timeout: 90,
-      responseLanguage: responseLanguage.trim() || 'English'
-    };
+  const configFor = (id: AIProvider): AIProviderConfig => withSettings({
+    provider: id,
+    timeout: 90,
+    responseLanguage: responseLanguage.trim() || 'English',
+    forceRefresh
+  }, providerSettings[id]);
 
-    if (providerInfo.needsKey) {
-      config.apiKey = apiKeys[provider];
-    }
+  const buildConfig = (): AIProviderConfig => {
+    const config = configFor(provider);
+    saveConfig();
+    // Force refresh applies to a single lookup
+    setForceRefresh(false);
+    return config;
+  };
+
+  const buildConsensus = (): AIProviderConfig[] | undefined => {
+    const extra = consensusProviders.filter(id => id !== provider);
+    return useConsensus && extra.length > 0 ? extra.map(configFor) : undefined;
+  };
 
-    if (provider === 'ollama') {
-      config.baseUrl = ollamaConfig.baseUrl;
-      config.model = ollamaConfig.model;
+  const toggleConsensusProvider = (id: AIProvider) => {
+    setConsensusProviders(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const handleSearch = (query: string) => {
+    const words = [...new Set(query.split(',').map(w => w.trim()).filter(Boolean))].slice(0, MAX_COMPARE);
+    if (words.length > 1) {
+      onCompare(words, buildConfig(), buildConsensus());
+    } else if (words.length === 1) {
+      onSearch(words[0], buildConfig(), buildConsensus());
     }
+  };
 
-    saveConfig();
-    onSearch(word, config);
+  const handleCognateSearch = (root: string, language: string) => {
+    onSearchCognates(root, language, buildConfig());
   };
 
   const handleSuggestion = (suggestion: string) => {
@@ -199,9 +315,25 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
     }
   };
 
-  const selectedProvider = PROVIDERS.find(p => p.id === provider)!;
-  const needsSetup = (selectedProvider.needsKey && !apiKeys[provider]) ||
-                     (provider === 'ollama' && !ollamaConfig.baseUrl);
+  const handleRootSuggestion = (suggestion: typeof ROOT_SUGGESTIONS[number]) => {
+    if (!isLoading) {
+      setSourceLanguage(suggestion.language);
+      handleCognateSearch(suggestion.root, suggestion.language);
+    }
+  };
+
+  const isProviderAvailable = (definition: ProviderDefinition) => {
+    if (definition.category === 'cli') return cliAgents.find(a => a.name === definition.id)?.installed ?? false;
+    if (requiresKey(definition)) return hasServerKey(definition.id);
+    return true;
+  };
+
+  const consensusCount = consensusProviders.filter(id => id !== provider).length;
+
+  const needsSetup = (requiresKey(selectedProvider) && !hasServerKey(provider)) ||
+    selectedFields.some(spec => spec.required && !(selectedSettings[spec.field]?.trim() || spec.default));
+
+  const listedProviders = providers.filter(p => CATEGORY_LABELS[p.category]);
 
   return (
     <div className="w-full max-w-lg relative">
@@ -217,9 +349,22 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
             value={value}
             onChange={(e) => setValue(e.target.value)}
             disabled={isLoading}
-            placeholder="ENTER WORD TO TRACE..."
-            className="w-full bg-white/40 border border-black focus:bg-white text-black px-10 py-2.5 rounded-none outline-none transition-all shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] placeholder:text-gray-600 font-mono uppercase font-bold text-xs"
+            placeholder={queryMode === 'root' ? "ENTER ROOT TO FAN OUT..." : "ENTER WORD TO TRACE (A, B TO COMPARE)..."}
+            className={`w-full bg-white/40 border border-black focus:bg-white text-black pl-10 py-2.5 rounded-none outline-none transition-all shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] placeholder:text-gray-600 font-mono uppercase font-bold text-xs ${
+              queryMode === 'root' ? 'pr-44' : 'pr-10'
+            }`}
           />
+          {queryMode === 'root' && (
+            <input
+              type="text"
+              value={sourceLanguage}
+              onChange={(e) => setSourceLanguage(e.target.value)}
+              disabled={isLoading}
+              placeholder="SOURCE LANG"
+              title="Language of the root"
+              className="absolute right-16 top-1/2 -translate-y-1/2 w-24 bg-white border border-black/20 focus:border-black text-black px-2 py-0.5 text-[10px] font-mono font-bold uppercase outline-none"
+            />
+          )}
           <div className="absolute left-3 top-1/2 -translate-y-1/2 text-black">
             {isLoading ? (
               <Loader2 className="w-4 h-4 animate-spin" />
@@ -232,7 +377,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
             disabled={isLoading || needsSetup}
             className="absolute right-1.5 top-1/2 -translate-y-1/2 bg-black hover:bg-gray-800 disabled:bg-gray-500 text-white px-3 py-1 rounded-none font-mono font-bold text-[10px] transition-all active:translate-x-[1px] active:translate-y-[1px] active:shadow-none"
           >
-            {isLoading ? "..." : "TRACE"}
+            {isLoading ? "..." : queryMode === 'root' ? "FAN_OUT" : "TRACE"}
           </button>
         </form>
 
@@ -265,6 +410,53 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
             <Settings size={12} />
           </button>
 
+          {/* Query Mode Toggle */}
+          <div className="flex border border-black/10">
+            {(['word', 'root'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setQueryMode(mode)}
+                className={`flex items-center gap-1 text-[9px] font-bold uppercase font-mono px-2 py-0.5 transition-all whitespace-nowrap ${
+                  queryMode === mode ? 'bg-black text-white' : 'text-black/40 hover:text-black'
+                }`}
+                title={mode === 'root' ? 'Descendants of a root across languages' : 'Journey of a single word'}
+              >
+                {mode === 'root' ? <Network size={10} /> : <Search size={10} />}
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {/* Consensus Toggle */}
+          <button
+            onClick={() => consensusCount > 0 ? setUseConsensus(!useConsensus) : setShowSettings(true)}
+            className={`flex items-center gap-1 text-[9px] font-bold uppercase font-mono border px-2 py-0.5 transition-all whitespace-nowrap ${
+              useConsensus && consensusCount > 0
+                ? 'bg-black text-white border-black'
+                : 'text-black/40 hover:text-black border-black/10 hover:border-black'
+            }`}
+            title={consensusCount > 0
+              ? `Also ask ${consensusCount} more provider(s) and merge the answers`
+              : 'Pick consensus providers in settings'}
+          >
+            <Users size={10} />
+            Consensus{consensusCount > 0 && ` +${consensusCount}`}
+          </button>
+
+          {/* Force Refresh Toggle */}
+          <button
+            onClick={() => setForceRefresh(!forceRefresh)}
+            className={`flex items-center gap-1 text-[9px] font-bold uppercase font-mono border px-2 py-0.5 transition-all whitespace-nowrap ${
+              forceRefresh
+                ? 'bg-black text-white border-black'
+                : 'text-black/40 hover:text-black border-black/10 hover:border-black'
+            }`}
+            title="Ignore cached result for the next lookup"
+          >
+            <RefreshCw size={10} />
+            Fresh
+          </button>
+
           {needsSetup && (
             <span className="text-[8px] text-red-500 font-bold">← SETUP REQUIRED</span>
           )}
@@ -279,72 +471,50 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
               exit={{ opacity: 0, y: -10 }}
               className="absolute z-50 mt-1 w-full bg-white border border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] max-h-64 overflow-y-auto"
             >
-              {/* CLI Agents */}
-              <div className="px-2 py-1 bg-black/5 text-[8px] font-black uppercase tracking-widest text-black/50">
-                CLI Agents (Local)
-              </div>
-              {PROVIDERS.filter(p => p.category === 'cli').map(p => {
-                const status = cliAgents.find(a => a.name === p.id);
-                const isInstalled = status?.installed ?? false;
+              {CATEGORIES.map(category => {
+                const group = listedProviders.filter(p => p.category === category);
+                if (group.length === 0) return null;
                 return (
-                  <button
-                    key={p.id}
-                    onClick={() => { if (isInstalled) { setProvider(p.id); setShowProviders(false); } }}
-                    disabled={!isInstalled}
-                    className={`w-full text-left px-3 py-2 text-[10px] font-mono flex justify-between items-center ${
-                      provider === p.id ? 'bg-black text-white' : isInstalled ? 'hover:bg-black/5' : 'opacity-40 cursor-not-allowed'
-                    }`}
-                  >
-                    <span className="font-bold uppercase flex items-center gap-1.5">
-                      {isInstalled ? (
-                        <CheckCircle2 size={10} className="text-green-600" />
-                      ) : (
-                        <XCircle size={10} className="text-red-400" />
-                      )}
-                      {p.name}
-                    </span>
-                    <span className="text-[8px] opacity-60">
-                      {isInstalled ? p.desc : 'Not installed'}
-                    </span>
-                  </button>
+                  <React.Fragment key={category}>
+                    <div className={`px-2 py-1 bg-black/5 text-[8px] font-black uppercase tracking-widest text-black/50 ${
+                      category !== CATEGORIES[0] ? 'border-t border-black/10' : ''
+                    }`}>
+                      {CATEGORY_LABELS[category]}
+                    </div>
+                    {group.map(p => {
+                      const isCli = p.category === 'cli';
+                      const isInstalled = !isCli || isProviderAvailable(p);
+                      return (
+                        <button
+                          key={p.id}
+                          onClick={() => {
+                            if (!isInstalled) return;
+                            setProvider(p.id);
+                            setShowProviders(false);
+                            if (p.category === 'local' || (requiresKey(p) && !hasServerKey(p.id))) setShowSettings(true);
+                          }}
+                          disabled={!isInstalled}
+                          className={`w-full text-left px-3 py-2 text-[10px] font-mono flex justify-between items-center ${
+                            provider === p.id ? 'bg-black text-white' : isInstalled ? 'hover:bg-black/5' : 'opacity-40 cursor-not-allowed'
+                          }`}
+                        >
+                          <span className="font-bold uppercase flex items-center gap-1.5">
+                            {isCli && (isInstalled ? (
+                              <CheckCircle2 size={10} className="text-green-600" />
+                            ) : (
+                              <XCircle size={10} className="text-red-400" />
+                            ))}
+                            {p.name}
+                          </span>
+                          <span className="text-[8px] opacity-60">
+                            {!isInstalled ? 'Not installed' : `${hasServerKey(p.id) ? '✓ ' : requiresKey(p) ? '⚠ ' : ''}${p.description}`}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </React.Fragment>
                 );
               })}
-
-              {/* APIs */}
-              <div className="px-2 py-1 bg-black/5 text-[8px] font-black uppercase tracking-widest text-black/50 border-t border-black/10">
-                Direct APIs (Need Key)
-              </div>
-              {PROVIDERS.filter(p => p.category === 'api').map(p => (
-                <button
-                  key={p.id}
-                  onClick={() => { setProvider(p.id); setShowProviders(false); if (!apiKeys[p.id]) setShowSettings(true); }}
-                  className={`w-full text-left px-3 py-2 text-[10px] font-mono hover:bg-black/5 flex justify-between items-center ${
-                    provider === p.id ? 'bg-black text-white' : ''
-                  }`}
-                >
-                  <span className="font-bold uppercase">{p.name}</span>
-                  <span className="text-[8px] opacity-60">
-                    {apiKeys[p.id] ? '✓ ' : '⚠ '}{p.desc}
-                  </span>
-                </button>
-              ))}
-
-              {/* Local */}
-              <div className="px-2 py-1 bg-black/5 text-[8px] font-black uppercase tracking-widest text-black/50 border-t border-black/10">
-                Local Models
-              </div>
-              {PROVIDERS.filter(p => p.category === 'local').map(p => (
-                <button
-                  key={p.id}
-                  onClick={() => { setProvider(p.id); setShowProviders(false); setShowSettings(true); }}
-                  className={`w-full text-left px-3 py-2 text-[10px] font-mono hover:bg-black/5 flex justify-between items-center ${
-                    provider === p.id ? 'bg-black text-white' : ''
-                  }`}
-                >
-                  <span className="font-bold uppercase">{p.name}</span>
-                  <span className="text-[8px] opacity-60">{p.desc}</span>
-                </button>
-              ))}
             </motion.div>
           )}
         </AnimatePresence>
@@ -386,96 +556,96 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
                 </p>
               </div>
 
-              {/* API Keys */}
-              <div className="space-y-2">
-                <div>
-                  <label className="text-[9px] font-bold text-black/60 uppercase">Gemini API Key</label>
-                  <input
-                    type="password"
-                    value={apiKeys['gemini-api']}
-                    onChange={(e) => setApiKeys({...apiKeys, 'gemini-api': e.target.value})}
-                    placeholder="AIza..."
-                    className="w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
-                  />
-                </div>
-                <div>
-                  <label className="text-[9px] font-bold text-black/60 uppercase">OpenAI API Key</label>
-                  <input
-                    type="password"
-                    value={apiKeys['openai-api']}
-                    onChange={(e) => setApiKeys({...apiKeys, 'openai-api': e.target.value})}
-                    placeholder="sk-..."
-                    className="w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
-                  />
-                </div>
-                <div>
-                  <label className="text-[9px] font-bold text-black/60 uppercase">Anthropic API Key</label>
-                  <input
-                    type="password"
-                    value={apiKeys['anthropic-api']}
-                    onChange={(e) => setApiKeys({...apiKeys, 'anthropic-api': e.target.value})}
-                    placeholder="sk-ant-..."
-                    className="w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
-                  />
-                </div>
+              {/* API Keys (configured on the server) */}
+              <div className="space-y-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Server API Keys</label>
+                {listedProviders.filter(p => p.keyEnv).map(p => {
+                  const status = serverKeys.find(k => k.id === p.id);
+                  return (
+                    <div key={p.id} className="flex justify-between items-center text-[10px] font-mono">
+                      <span className="font-bold uppercase flex items-center gap-1.5">
+                        {status?.configured ? (
+                          <CheckCircle2 size={10} className="text-green-600" />
+                        ) : (
+                          <XCircle size={10} className={requiresKey(p) ? 'text-red-400' : 'text-black/30'} />
+                        )}
+                        {p.name}
+                      </span>
+                      <span className="text-[8px] text-black/50">
+                        {status ? p.keyEnv : 'server offline'}{!requiresKey(p) && ' (optional)'}
+                      </span>
+                    </div>
+                  );
+                })}
+                <p className="text-[8px] text-black/40">
+                  Keys are read from the API server's .env and never reach the browser
+                </p>
               </div>
 
-              {/* Ollama Config */}
-              <div className="border-t border-black/10 pt-2 space-y-2">
-                <div className="flex justify-between items-center">
-                  <label className="text-[9px] font-bold text-black/60 uppercase">Ollama Settings</label>
-                  <button
-                    onClick={fetchOllamaModels}
-                    disabled={ollamaLoading}
-                    className="text-[8px] text-black/40 hover:text-black flex items-center gap-1"
-                  >
-                    <RefreshCw size={10} className={ollamaLoading ? 'animate-spin' : ''} />
-                    Refresh
-                  </button>
-                </div>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={ollamaConfig.baseUrl}
-                    onChange={(e) => setOllamaConfig({...ollamaConfig, baseUrl: e.target.value})}
-                    onBlur={fetchOllamaModels}
-                    placeholder="http://localhost:11434"
-                    className="flex-1 bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
-                  />
-                </div>
-                <div>
-                  <label className="text-[8px] text-black/50 uppercase">Model</label>
-                  {ollamaError ? (
-                    <div className="text-[9px] text-red-500 py-1">{ollamaError}</div>
-                  ) : ollamaModels.length > 0 ? (
-                    <select
-                      value={ollamaConfig.model}
-                      onChange={(e) => setOllamaConfig({...ollamaConfig, model: e.target.value})}
-                      className="w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
+              {/* Consensus Providers */}
+              <div className="space-y-1">
+                <label className="text-[9px] font-bold text-black/60 uppercase">Consensus Providers</label>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+                  {listedProviders.filter(p => p.id !== provider).map(p => (
+                    <label
+                      key={p.id}
+                      className={`flex items-center gap-1.5 text-[10px] font-mono font-bold uppercase ${
+                        isProviderAvailable(p) ? 'cursor-pointer' : 'opacity-40'
+                      }`}
                     >
-                      {ollamaModels.map(m => (
-                        <option key={m.name} value={m.name}>
-                          {m.name} {m.size ? `(${(m.size / 1e9).toFixed(1)}GB)` : ''}
-                        </option>
-                      ))}
-                    </select>
-                  ) : (
-                    <input
-                      type="text"
-                      value={ollamaConfig.model}
-                      onChange={(e) => setOllamaConfig({...ollamaConfig, model: e.target.value})}
-                      placeholder="llama3"
-                      className="w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none"
-                    />
-                  )}
+                      <input
+                        type="checkbox"
+                        checked={consensusProviders.includes(p.id)}
+                        onChange={() => toggleConsensusProvider(p.id)}
+                        disabled={!isProviderAvailable(p)}
+                        className="accent-black"
+                      />
+                      {p.name}
+                    </label>
+                  ))}
                 </div>
                 <p className="text-[8px] text-black/40">
-                  {ollamaModels.length > 0
-                    ? `${ollamaModels.length} models available`
-                    : 'Enter base URL and refresh to see models'}
+                  With CONSENSUS on, these are asked alongside {selectedProvider.name} and the answers merged
                 </p>
               </div>
 
+              {/* Selected provider's settings, generated from its field declarations */}
+              {selectedFields.length > 0 && (
+                <div className="border-t border-black/10 pt-2 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[9px] font-bold text-black/60 uppercase">{selectedProvider.name} Settings</label>
+                    {selectedProvider.listModels && (
+                      <button
+                        onClick={fetchModels}
+                        disabled={modelsLoading}
+                        className="text-[8px] text-black/40 hover:text-black flex items-center gap-1"
+                      >
+                        <RefreshCw size={10} className={modelsLoading ? 'animate-spin' : ''} />
+                        Refresh
+                      </button>
+                    )}
+                  </div>
+                  {selectedFields.map(spec => (
+                    <ProviderFieldInput
+                      key={spec.field}
+                      spec={spec}
+                      value={selectedSettings[spec.field] ?? ''}
+                      models={spec.field === 'model' ? models : []}
+                      error={spec.field === 'model' ? modelsError : null}
+                      onChange={value => updateSetting(spec.field, value)}
+                      onBlur={spec.field === 'baseUrl' || spec.field === 'headers' ? fetchModels : undefined}
+                    />
+                  ))}
+                  <p className="text-[8px] text-black/40">
+                    {selectedProvider.capabilities.jsonMode ? 'JSON mode' : 'JSON by prompt'}
+                    {selectedProvider.capabilities.streaming ? ' · streaming' : ''}
+                    {selectedProvider.listModels && (models.length > 0
+                      ? ` · ${models.length} models available`
+                      : ' · enter base URL and refresh to see models')}
+                  </p>
+                </div>
+              )}
+
               <button
                 onClick={() => saveConfig(true)}
                 className="w-full bg-black text-white py-1 text-[10px] font-bold uppercase hover:bg-gray-800"
@@ -510,7 +680,16 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
           <span className="text-black font-bold text-[9px] uppercase font-mono whitespace-nowrap opacity-60">
             Suggestions:
           </span>
-          {SUGGESTIONS.map((suggestion) => (
+          {queryMode === 'root' ? ROOT_SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion.root}
+              onClick={() => handleRootSuggestion(suggestion)}
+              disabled={isLoading}
+              className="text-black/60 hover:text-black text-[9px] font-bold uppercase font-mono border border-black/10 hover:border-black px-2 py-0.5 transition-all whitespace-nowrap bg-white/20"
+            >
+              {suggestion.root} <span className="opacity-50">{suggestion.language}</span>
+            </button>
+          )) : SUGGESTIONS.map((suggestion) => (
             <button
               key={suggestion}
               onClick={() => handleSuggestion(suggestion)}
@@ -525,3 +704,53 @@ export const SearchInput: React.FC<SearchInputProps> = ({ onSearch, isLoading })
     </div>
   );
 };
+
+// ============== Provider Field ==============
+
+interface ProviderFieldInputProps {
+  spec: ProviderFieldSpec;
+  value: string;
+  /** Offered as a list instead of free text when the provider reported any */
+  models: ProviderModel[];
+  /** Shown under the field, e.g. why the models could not be listed */
+  error: string | null;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+}
+
+const FIELD_CLASS = 'w-full bg-white border border-black/20 focus:border-black text-black px-2 py-1 text-[10px] font-mono outline-none';
+
+const ProviderFieldInput: React.FC<ProviderFieldInputProps> = ({ spec, value, models, error, onChange, onBlur }) => (
+  <div>
+    <label className="text-[8px] text-black/50 uppercase">{spec.label}</label>
+    {spec.field === 'headers' ? (
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        placeholder={spec.placeholder ?? spec.default}
+        rows={2}
+        className={`${FIELD_CLASS} resize-y`}
+      />
+    ) : models.length > 0 ? (
+      <select value={value || spec.default} onChange={(e) => onChange(e.target.value)} className={FIELD_CLASS}>
+        {models.map(m => (
+          <option key={m.name} value={m.name}>
+            {m.name} {m.size ? `(${(m.size / 1e9).toFixed(1)}GB)` : ''}
+          </option>
+        ))}
+      </select>
+    ) : (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        placeholder={spec.placeholder ?? spec.default}
+        className={FIELD_CLASS}
+      />
+    )}
+    {/* A failed listing leaves the free-text input, so a model can still be typed in */}
+    {error && <div className="text-[9px] text-red-500 py-1">{error}</div>}
+  </div>
+);
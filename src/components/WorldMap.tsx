@@ -1,8 +1,26 @@
-import React, { useEffect, useRef, useMemo, useState } from 'react';
+import React, { useEffect, useImperativeHandle, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { WordJourney } from '@/types';
+import { Route } from 'lucide-react';
+import type { Feature, FeatureCollection } from 'geojson';
+import type { WordJourney, CognateFanout } from '@/types';
+import { ORIGIN_ORDER } from '@/utils/journeyTree';
+import { findSharedWaypoints, getComparisonColor } from '@/utils/comparison';
+import { getLegProgress, getLegYears, getReachedIndex, getStepYears } from '@/utils/timeline';
+import { buildLandGrid, computeRoute, getJourneyRoutes, type GeoPoint, type LandGrid } from '@/utils/routing';
+import { TRADE_ROUTES, findTradeRoutes } from '@/utils/tradeRoutes';
+import { loadBasemap, loadSavedBasemapSource, saveBasemapSource, type BasemapSource } from '@/services/basemap';
+import { loadEraBasemap, type EraBasemap, type EraSnapshot } from '@/services/eraBasemaps';
+import {
+  createProjection,
+  getCenteringRotation,
+  getProjectionOption,
+  isOnVisibleSide,
+  type GlobeRotation,
+  type ProjectionId
+} from '@/utils/projections';
+import { BasemapControl, type BasemapStatus } from './BasemapControl';
+import { ProjectionControl } from './ProjectionControl';
 
 const getFlagEmoji = (countryCode: string): string => {
   if (!countryCode) return '';
@@ -16,19 +34,63 @@ const getFlagEmoji = (countryCode: string): string => {
 
 interface WorldMapProps {
   journeyData: WordJourney | null;
+  /** Cognate fan-out to draw instead of a journey; activeWaypointIndex then selects a descendant */
+  fanoutData?: CognateFanout | null;
+  /** Journeys overlaid for comparison; they advance together with currentYear */
+  comparisonData?: WordJourney[] | null;
   activeWaypointIndex: number;
+  /** Playback position on the year axis; legs are drawn in proportion to elapsed time */
+  currentYear?: number | null;
+  /** Historical borders to show over the basemap (null = modern borders only) */
+  era?: EraSnapshot | null;
+  projection: ProjectionId;
+  onProjectionChange: (projection: ProjectionId) => void;
   isPanelOpen: boolean;
+  /** Receives the map's SVG element, e.g. for exports */
+  ref?: React.Ref<SVGSVGElement>;
+}
+
+interface JourneyLayerOptions {
+  key: string;
+  color: string;
+  /** Geographic path of each leg, in step order */
+  routes: GeoPoint[][];
+  /** Share of the leg to a step drawn so far (0-1); the marker appears at 1 */
+  stepProgress: (idx: number) => number;
+  isStepCurrent: (idx: number) => boolean;
+  showOriginLabel: boolean;
+  /** Orders (0 = origin) to ring as shared with another journey */
+  shared?: Set<number>;
 }
 
 export const WorldMap: React.FC<WorldMapProps> = ({
   journeyData,
+  fanoutData,
+  comparisonData,
   activeWaypointIndex,
-  isPanelOpen
+  currentYear = null,
+  era = null,
+  projection: projectionId,
+  onProjectionChange,
+  isPanelOpen,
+  ref
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  useImperativeHandle(ref, () => svgRef.current!, []);
   const zoomContainerRef = useRef<SVGGElement>(null);
   const baseMapRef = useRef<SVGGElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const rotationRef = useRef<GlobeRotation>([0, 0]);
+  const rotationTimerRef = useRef<d3.Timer | null>(null);
+  const [rotation, setRotation] = useState<GlobeRotation>([0, 0]);
+  const [countries, setCountries] = useState<FeatureCollection | null>(null);
+  const [land, setLand] = useState<FeatureCollection | Feature | null>(null);
+  const [eraLayer, setEraLayer] = useState<{ era: EraSnapshot; basemap: EraBasemap } | null>(null);
+  const [landGrid, setLandGrid] = useState<LandGrid | null>(null);
+  const [tradeLayers, setTradeLayers] = useState<Set<string>>(new Set());
+  const [basemapSource, setBasemapSource] = useState<BasemapSource>(loadSavedBasemapSource);
+  const [basemapStatus, setBasemapStatus] = useState<BasemapStatus>('loading');
+  const [basemapError, setBasemapError] = useState<string | null>(null);
   const [dimensions, setDimensions] = useState({
     width: window.innerWidth,
     height: window.innerHeight
@@ -47,27 +109,139 @@ export const WorldMap: React.FC<WorldMapProps> = ({
   const sidePanelWidth = 400;
   const effectiveWidth = isPanelOpen ? width - sidePanelWidth : width;
 
-  const projection = useMemo(() =>
-    d3.geoNaturalEarth1()
-      .scale(width / 5.5)
-      .translate([width / 2, height / 2.2]),
-    [width, height]
+  const { isGlobe } = getProjectionOption(projectionId);
+
+  // Centering works from the unrotated projection, so it doesn't restart on every frame of a globe rotation
+  const baseProjection = useMemo(
+    () => createProjection(projectionId, width, height),
+    [projectionId, width, height]
+  );
+
+  const projection = useMemo(
+    () => (isGlobe ? createProjection(projectionId, width, height, rotation) : baseProjection),
+    [isGlobe, projectionId, width, height, rotation, baseProjection]
   );
 
-  const pathGenerator = d3.geoPath().projection(projection);
+  const pathGenerator = useMemo(() => d3.geoPath().projection(projection), [projection]);
 
-  // Initialize Base Map Layer
+  // Screen position of a point, or null when it is on the far side of the globe
+  const project = (coordinates: [number, number]) =>
+    isGlobe && !isOnVisibleSide(coordinates, rotation) ? null : projection(coordinates);
+
+  const updateRotation = (next: GlobeRotation) => {
+    rotationRef.current = next;
+    setRotation(next);
+  };
+
+  // Routes are geographic, so they only change with the data (or once land has loaded)
+  const comparison = useMemo(() => {
+    if (!comparisonData) return null;
+    return {
+      years: comparisonData.map(getStepYears),
+      legs: comparisonData.map(getLegYears),
+      routes: comparisonData.map(journey => getJourneyRoutes(journey, landGrid)),
+      shared: findSharedWaypoints(comparisonData)
+    };
+  }, [comparisonData, landGrid]);
+
+  const journeyRoutes = useMemo(
+    () => (journeyData ? getJourneyRoutes(journeyData, landGrid) : []),
+    [journeyData, landGrid]
+  );
+
+  const fanoutRoutes = useMemo(
+    () => fanoutData?.descendants.map(descendant => computeRoute(
+      fanoutData.origin.location.coordinates,
+      descendant.location.coordinates,
+      descendant.routeType,
+      landGrid
+    )) ?? [],
+    [fanoutData, landGrid]
+  );
+
+  // Trade routes the shown journeys follow are drawn even when their layer is off
+  const highlightedRoutes = useMemo(() => {
+    if (comparisonData && comparison) {
+      return new Set(comparisonData.flatMap((journey, i) => findTradeRoutes(comparison.routes[i], journey.routeSummary)));
+    }
+    if (journeyData) return new Set(findTradeRoutes(journeyRoutes, journeyData.routeSummary));
+    if (fanoutData) return new Set(findTradeRoutes(fanoutRoutes));
+    return new Set<string>();
+  }, [comparisonData, comparison, journeyData, journeyRoutes, fanoutData, fanoutRoutes]);
+
+  const toggleTradeLayer = (id: string) => setTradeLayers(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const routePath = (route: GeoPoint[]) => pathGenerator({ type: 'LineString', coordinates: route }) ?? '';
+
+  // Load the basemap; the land grid for sea and land routes comes from the same topology.
+  // If it fails the graticule stays and routes fall back to great circles.
+  useEffect(() => {
+    let cancelled = false;
+    setBasemapStatus('loading');
+    setBasemapError(null);
+
+    loadBasemap(basemapSource)
+      .then(({ countries, land }) => {
+        if (cancelled) return;
+        setCountries(countries);
+        setLand(land);
+        setLandGrid(buildLandGrid(land));
+        setBasemapStatus('ready');
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setCountries(null);
+        setLand(null);
+        setLandGrid(null);
+        setBasemapStatus('failed');
+        setBasemapError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [basemapSource]);
+
+  // Switch era layers once the new snapshot has loaded; the old one fades out as it fades in
+  useEffect(() => {
+    if (!era) {
+      setEraLayer(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadEraBasemap(era)
+      .then(basemap => {
+        if (!cancelled) setEraLayer({ era, basemap });
+      })
+      .catch(() => {
+        if (!cancelled) setEraLayer(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [era]);
+
+  const handleBasemapChange = (source: BasemapSource) => {
+    saveBasemapSource(source);
+    setBasemapSource(source);
+  };
+
+  // Zoom and pan; on the globe dragging rotates instead, and only the wheel zooms
   useEffect(() => {
-    if (!svgRef.current || !zoomContainerRef.current || !baseMapRef.current) return;
+    if (!svgRef.current || !zoomContainerRef.current) return;
 
     const svg = d3.select(svgRef.current);
     const zoomG = d3.select(zoomContainerRef.current);
-    const baseG = d3.select(baseMapRef.current);
-
-    baseG.selectAll('*').remove();
 
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([1, 15])
+      .filter(event => (isGlobe ? event.type === 'wheel' : (!event.ctrlKey || event.type === 'wheel') && !event.button))
       .on('zoom', (event) => {
         zoomG.attr('transform', event.transform);
       });
@@ -75,6 +249,40 @@ export const WorldMap: React.FC<WorldMapProps> = ({
     svg.call(zoom);
     zoomRef.current = zoom;
 
+    if (isGlobe) {
+      svg.call(d3.drag<SVGSVGElement, unknown>()
+        .on('start', () => rotationTimerRef.current?.stop())
+        .on('drag', (event) => {
+          // Slower when zoomed in, so the point under the cursor roughly follows it
+          const speed = 0.25 / d3.zoomTransform(svgRef.current!).k;
+          const [lambda, phi] = rotationRef.current;
+          updateRotation([lambda + event.dx * speed, Math.max(-90, Math.min(90, phi - event.dy * speed))]);
+        }));
+    }
+
+    return () => {
+      svg.on('.zoom', null).on('.drag', null);
+    };
+  }, [isGlobe]);
+
+  // Initialize Base Map Layer
+  useEffect(() => {
+    if (!baseMapRef.current) return;
+
+    const baseG = d3.select(baseMapRef.current);
+
+    baseG.selectAll('*').remove();
+
+    if (isGlobe) {
+      baseG.append('path')
+        .datum({ type: 'Sphere' } as d3.GeoPermissibleObjects)
+        .attr('d', pathGenerator as any)
+        .attr('fill', '#fff')
+        .attr('fill-opacity', 0.3)
+        .attr('stroke', '#000')
+        .attr('stroke-width', 1);
+    }
+
     // Graticule
     const graticule = d3.geoGraticule().step([15, 15]);
     baseG.append('path')
@@ -85,41 +293,91 @@ export const WorldMap: React.FC<WorldMapProps> = ({
       .attr('stroke-width', 0.2)
       .attr('stroke-opacity', 0.2);
 
-    // Load countries
-    fetch('https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json')
-      .then(res => res.json())
-      .then(topology => {
-        const countries = topojson.feature(topology, topology.objects.countries as any);
-        baseG.selectAll('.country')
-          .data((countries as any).features)
-          .enter()
-          .append('path')
-          .attr('d', pathGenerator as any)
-          .attr('fill', '#97C8B9')
-          .attr('stroke', '#000')
-          .attr('stroke-width', 0.3)
-          .attr('opacity', 0.4);
-      });
-  }, [pathGenerator]);
+    if (countries) {
+      baseG.selectAll('.country')
+        .data(countries.features)
+        .enter()
+        .append('path')
+        .attr('d', pathGenerator as any)
+        .attr('fill', '#97C8B9')
+        .attr('stroke', '#000')
+        .attr('stroke-width', 0.3)
+        .attr('opacity', 0.4);
+    }
+  }, [pathGenerator, countries, isGlobe]);
 
   // Centering and Panning Logic
   useEffect(() => {
-    if (!journeyData || !svgRef.current || !zoomRef.current) return;
+    if (!svgRef.current || !zoomRef.current) return;
 
-    let targetCoords: [number, number];
-    if (activeWaypointIndex === -1) {
-      targetCoords = journeyData.origin.location.coordinates;
-    } else if (journeyData.journey[activeWaypointIndex]) {
-      targetCoords = journeyData.journey[activeWaypointIndex].location.coordinates;
-    } else {
-      return;
+    let focus: [number, number][] = [];
+    // Several locations are fitted on screen; a single one is zoomed in on
+    let fitAll = false;
+
+    if (comparisonData) {
+      focus = comparisonData.flatMap(journey => [
+        journey.origin.location.coordinates,
+        ...journey.journey.map(step => step.location.coordinates)
+      ]);
+      fitAll = true;
+    } else if (fanoutData) {
+      if (fanoutData.descendants[activeWaypointIndex]) {
+        focus = [fanoutData.descendants[activeWaypointIndex].location.coordinates];
+      } else {
+        // Nothing selected: fit the whole fan-out on screen
+        focus = [fanoutData.origin, ...fanoutData.descendants].map(item => item.location.coordinates);
+        fitAll = true;
+      }
+    } else if (journeyData) {
+      if (activeWaypointIndex === -1) {
+        focus = [journeyData.origin.location.coordinates];
+      } else if (journeyData.journey[activeWaypointIndex]) {
+        focus = [journeyData.journey[activeWaypointIndex].location.coordinates];
+      }
     }
 
-    const projected = projection(targetCoords);
-    if (!projected) return;
+    if (focus.length === 0) return;
+
+    let projected: [number, number] | null = null;
+    let currentScale = 3.2;
+    rotationTimerRef.current?.stop();
+
+    if (isGlobe) {
+      // The globe turns to the focus and stays centred; the zoom only scales it
+      const center = focus.length === 1 ? focus[0] : d3.geoCentroid({ type: 'MultiPoint', coordinates: focus }) as [number, number];
+      const from = rotationRef.current;
+      const to = getCenteringRotation(center);
+      // Turn the short way round
+      to[0] = from[0] + ((((to[0] - from[0]) % 360) + 540) % 360) - 180;
+      const interpolateLambda = d3.interpolateNumber(from[0], to[0]);
+      const interpolatePhi = d3.interpolateNumber(from[1], to[1]);
+
+      const timer = d3.timer(elapsed => {
+        const t = d3.easeCubicInOut(Math.min(1, elapsed / 1500));
+        updateRotation([interpolateLambda(t), interpolatePhi(t)]);
+        if (elapsed >= 1500) timer.stop();
+      });
+      rotationTimerRef.current = timer;
+
+      projected = [width / 2, height / 2];
+      currentScale = fitAll ? 1 : 1.6;
+    } else {
+      const points = focus
+        .map(coords => baseProjection(coords))
+        .filter((point): point is [number, number] => !!point);
+      if (points.length === 0) return;
+
+      const [minX, maxX] = d3.extent(points, point => point[0]) as [number, number];
+      const [minY, maxY] = d3.extent(points, point => point[1]) as [number, number];
+      projected = [(minX + maxX) / 2, (minY + maxY) / 2];
+      if (fitAll) {
+        // Centre and scale so every given location is on screen
+        const fit = 0.7 / Math.max((maxX - minX) / effectiveWidth, (maxY - minY) / height, 1e-3);
+        currentScale = Math.max(1, Math.min(6, fit));
+      }
+    }
 
     const [tx, ty] = projected;
-    const currentScale = 3.2;
     const centerX = effectiveWidth / 2;
     const centerY = height / 2;
 
@@ -133,60 +391,203 @@ export const WorldMap: React.FC<WorldMapProps> = ({
           .scale(currentScale)
           .translate(-tx, -ty)
       );
-  }, [journeyData, activeWaypointIndex, effectiveWidth, height, projection]);
+  }, [journeyData, fanoutData, comparisonData, activeWaypointIndex, effectiveWidth, width, height, baseProjection, isGlobe]);
 
-  const renderJourneyLayer = () => {
-    if (!journeyData) return null;
+  // Stop a running globe rotation when the map goes away
+  useEffect(() => () => rotationTimerRef.current?.stop(), []);
+
+  // Coarse era outlines are clipped to the coastline
+  const renderEraLayer = () => (
+    <AnimatePresence>
+      {eraLayer && (
+        <motion.g
+          key={`era-${eraLayer.era.id}`}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.8 }}
+          className="pointer-events-none"
+        >
+          <g clipPath={land ? 'url(#era-land-clip)' : undefined}>
+            {eraLayer.basemap.features.map((feature, idx) => (
+              <path
+                key={`era-polity-${idx}`}
+                d={pathGenerator(feature) ?? ''}
+                fill={feature.properties.color}
+                fillOpacity={0.45}
+                stroke="#000"
+                strokeWidth={0.4}
+                strokeDasharray="3 2"
+              />
+            ))}
+          </g>
+          {eraLayer.basemap.features.map((feature, idx) => {
+            const pos = project(d3.geoCentroid(feature));
+            if (!pos) return null;
+            return (
+              <text
+                key={`era-label-${idx}`}
+                x={pos[0]}
+                y={pos[1]}
+                textAnchor="middle"
+                fontSize={6}
+                fontWeight="bold"
+                fillOpacity={0.5}
+                className="font-mono uppercase"
+              >
+                {feature.properties.name}
+              </text>
+            );
+          })}
+        </motion.g>
+      )}
+    </AnimatePresence>
+  );
+
+  const renderTradeRoutes = () => (
+    <g>
+      {TRADE_ROUTES.features.map(feature => {
+        const { id, name, period, color } = feature.properties;
+        const highlighted = highlightedRoutes.has(id);
+        if (!highlighted && !tradeLayers.has(id)) return null;
+
+        return (
+          <path
+            key={`trade-route-${id}`}
+            d={pathGenerator(feature) ?? ''}
+            fill="none"
+            stroke={color}
+            strokeWidth={highlighted ? 4 : 2}
+            strokeOpacity={highlighted ? 0.5 : 0.3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <title>{`${name} (${period})`}</title>
+          </path>
+        );
+      })}
+    </g>
+  );
+
+  const renderFanoutLayer = () => {
+    if (!fanoutData) return null;
 
-    const points: [number, number][] = [
-      journeyData.origin.location.coordinates,
-      ...journeyData.journey.map(j => j.location.coordinates)
-    ];
+    const pOrigin = project(fanoutData.origin.location.coordinates);
 
     return (
       <g>
+        {/* Routes first so every marker sits on top of them */}
+        {fanoutData.descendants.map((descendant, idx) => {
+          const isSelected = idx === activeWaypointIndex;
+
+          return (
+            <motion.path
+              key={`fanout-arc-${idx}`}
+              d={routePath(fanoutRoutes[idx])}
+              fill="none"
+              stroke="black"
+              strokeWidth={isSelected ? 2 : 1}
+              strokeDasharray={descendant.routeType === 'land' ? "2 2" : "0"}
+              initial={{ pathLength: 0, opacity: 0 }}
+              animate={{ pathLength: 1, opacity: activeWaypointIndex === -1 || isSelected ? 1 : 0.35 }}
+              transition={{ duration: 1.2, delay: idx * 0.1, ease: "linear" }}
+            />
+          );
+        })}
+        {fanoutData.descendants.map((descendant, idx) => {
+          const pEnd = project(descendant.location.coordinates);
+          if (!pEnd) return null;
+          const isSelected = idx === activeWaypointIndex;
+
+          return (
+            <g key={`fanout-marker-${idx}`}>
+              <WaypointMarker
+                pos={pEnd}
+                active
+                isCurrent={isSelected}
+                label={descendant.word}
+                countryCode={descendant.location.countryCode}
+              />
+              {!isSelected && (
+                <text
+                  x={pEnd[0] + 5}
+                  y={pEnd[1] + 2}
+                  fontSize={6}
+                  fontWeight="bold"
+                  className="font-mono uppercase pointer-events-none"
+                  stroke="white"
+                  strokeWidth={2}
+                  paintOrder="stroke"
+                >
+                  {descendant.word}
+                </text>
+              )}
+            </g>
+          );
+        })}
         <OriginMarker
-          pos={projection(journeyData.origin.location.coordinates)}
-          active={activeWaypointIndex >= -1}
-          countryCode={journeyData.origin.location.countryCode}
-          label={journeyData.origin.word}
-          isOrigin={activeWaypointIndex === -1}
+          pos={pOrigin}
+          active
+          countryCode={fanoutData.origin.location.countryCode}
+          label={fanoutData.origin.word}
+          isOrigin
         />
-        {journeyData.journey.map((step, idx) => {
-          const isLand = step.routeType === 'land';
-          const isActive = idx <= activeWaypointIndex;
-          const isCurrent = idx === activeWaypointIndex;
-          const pStart = projection(points[idx]);
-          const pEnd = projection(points[idx + 1]);
+      </g>
+    );
+  };
 
-          if (!pStart || !pEnd) return null;
+  const renderJourney = (journey: WordJourney, options: JourneyLayerOptions) => {
+    const { key, color, routes, stepProgress, isStepCurrent, shared } = options;
+    // Year-driven playback updates continuously, so legs follow it instead of easing
+    const legTransition = currentYear === null ? { duration: 1.5, ease: "linear" as const } : { duration: 0 };
 
-          const dist = Math.sqrt(
-            Math.pow(pEnd[0] - pStart[0], 2) + Math.pow(pEnd[1] - pStart[1], 2)
-          );
-          const midX = (pStart[0] + pEnd[0]) / 2;
-          const midY = (pStart[1] + pEnd[1]) / 2 - dist * 0.4;
-          const pathD = `M${pStart[0]},${pStart[1]} Q${midX},${midY} ${pEnd[0]},${pEnd[1]}`;
+    const renderSharedRing = (pos: [number, number] | null, order: number) =>
+      pos && shared?.has(order) ? (
+        <circle cx={pos[0]} cy={pos[1]} r={9} fill="none" stroke={color} strokeWidth={1.5} strokeDasharray="3 2" />
+      ) : null;
+
+    const originPos = project(journey.origin.location.coordinates);
+
+    return (
+      <g key={key}>
+        {renderSharedRing(originPos, ORIGIN_ORDER)}
+        <OriginMarker
+          pos={originPos}
+          active
+          countryCode={journey.origin.location.countryCode}
+          label={journey.origin.word}
+          isOrigin={options.showOriginLabel}
+        />
+        {journey.journey.map((step, idx) => {
+          const isLand = step.routeType === 'land';
+          const progress = stepProgress(idx);
+          const isActive = progress >= 1;
+          const pEnd = project(step.location.coordinates);
+          const pathD = routes[idx] ? routePath(routes[idx]) : '';
+
+          // On the globe a marker can be out of sight while part of its leg is not
+          if (!pEnd && !pathD) return null;
 
           return (
-            <g key={`journey-layer-step-${idx}`}>
+            <g key={`${key}-step-${idx}`}>
               <motion.path
                 d={pathD}
                 fill="none"
-                stroke="black"
+                stroke={color}
                 strokeWidth={2}
                 strokeDasharray={isLand ? "2 2" : "0"}
                 initial={{ pathLength: 0, opacity: 0 }}
                 animate={{
-                  pathLength: isActive ? 1 : 0,
-                  opacity: isActive ? 1 : 0
+                  pathLength: progress,
+                  opacity: progress > 0 ? 1 : 0
                 }}
-                transition={{ duration: 1.5, ease: "linear" }}
+                transition={legTransition}
               />
+              {isActive && renderSharedRing(pEnd, step.order)}
               <WaypointMarker
                 pos={pEnd}
                 active={isActive}
-                isCurrent={isCurrent}
+                isCurrent={isStepCurrent(idx)}
                 label={step.word}
                 countryCode={step.location.countryCode}
               />
@@ -197,19 +598,129 @@ export const WorldMap: React.FC<WorldMapProps> = ({
     );
   };
 
+  const renderJourneyLayer = () => {
+    if (comparisonData && comparison) {
+      // All journeys advance together along the shared year axis
+      const year = currentYear ?? -Infinity;
+      return (
+        <g>
+          {comparisonData.map((journey, i) => renderJourney(journey, {
+            key: `journey-layer-${i}`,
+            color: getComparisonColor(i),
+            routes: comparison.routes[i],
+            stepProgress: idx => getLegProgress(comparison.legs[i][idx], year),
+            isStepCurrent: idx => idx === getReachedIndex(comparison.years[i], year),
+            showOriginLabel: true,
+            shared: comparison.shared[i]
+          }))}
+        </g>
+      );
+    }
+
+    if (!journeyData) return null;
+    const singleLegs = getLegYears(journeyData);
+
+    return renderJourney(journeyData, {
+      key: 'journey-layer',
+      color: 'black',
+      routes: journeyRoutes,
+      stepProgress: currentYear === null
+        ? idx => (idx <= activeWaypointIndex ? 1 : 0)
+        : idx => getLegProgress(singleLegs[idx], currentYear),
+      isStepCurrent: idx => idx === activeWaypointIndex,
+      showOriginLabel: activeWaypointIndex === -1
+    });
+  };
+
   return (
-    <div className="w-full h-full bg-mint overflow-hidden">
+    <div className="relative w-full h-full bg-mint overflow-hidden">
       <svg
         ref={svgRef}
         width={width}
         height={height}
         className="cursor-grab active:cursor-grabbing"
       >
+        <defs>
+          {land && (
+            <clipPath id="era-land-clip">
+              <path d={pathGenerator(land) ?? ''} />
+            </clipPath>
+          )}
+        </defs>
         <g ref={zoomContainerRef}>
           <g ref={baseMapRef} />
-          {renderJourneyLayer()}
+          {renderEraLayer()}
+          {renderTradeRoutes()}
+          {fanoutData ? renderFanoutLayer() : renderJourneyLayer()}
         </g>
       </svg>
+      <div className="absolute top-6 left-6 z-20 flex items-start gap-2">
+        <BasemapControl
+          source={basemapSource}
+          status={basemapStatus}
+          error={basemapError}
+          onChange={handleBasemapChange}
+        />
+        <ProjectionControl projection={projectionId} onChange={onProjectionChange} />
+        <TradeRouteControl enabled={tradeLayers} highlighted={highlightedRoutes} onToggle={toggleTradeLayer} />
+      </div>
+    </div>
+  );
+};
+
+interface TradeRouteControlProps {
+  enabled: Set<string>;
+  highlighted: Set<string>;
+  onToggle: (id: string) => void;
+}
+
+const TradeRouteControl: React.FC<TradeRouteControlProps> = ({ enabled, highlighted, onToggle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="font-mono">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-2 px-2 py-1 border border-black text-[9px] font-black uppercase transition-colors shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+          isOpen ? 'bg-black text-white' : 'bg-white text-black hover:bg-black hover:text-white'
+        }`}
+        title="Historical trade routes"
+      >
+        <Route size={12} />
+        Trade_Routes
+        {highlighted.size > 0 && <span className="bg-white text-black px-1">{highlighted.size}</span>}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ y: -5, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="mt-1 bg-white border border-black p-1 flex flex-col shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          >
+            {TRADE_ROUTES.features.map(({ properties: route }) => (
+              <label
+                key={route.id}
+                className="flex items-center gap-2 px-1.5 py-1 text-[9px] font-bold uppercase cursor-pointer hover:bg-black/5"
+                title={route.period}
+              >
+                <input
+                  type="checkbox"
+                  checked={enabled.has(route.id)}
+                  onChange={() => onToggle(route.id)}
+                  className="accent-black"
+                />
+                <span className="w-3 h-1" style={{ backgroundColor: route.color }} />
+                <span className="flex-1">{route.name}</span>
+                {highlighted.has(route.id) && (
+                  <span className="bg-black text-white px-1 text-[8px]">On_Route</span>
+                )}
+              </label>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
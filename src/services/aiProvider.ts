@@ -1,4 +1,26 @@
-import type { WordJourney, AIProvider, AIProviderConfig } from '@/types';
+import type { WordJourney, PartialJourney, AIProvider, AIProviderConfig, JourneyResult, JourneyCache, ValidationIssue } from '@/types';
+import { validateWordJourney, JourneyValidationError } from './journeyValidator';
+import { journeyCacheKey, getDefaultJourneyCache } from './journeyCache';
+import { createPartialJourneyTracker } from './streamingJson';
+import { mergeJourneys, type ProviderAnswer } from './consensus';
+import { readSSE, readNDJSON } from './streams';
+import {
+  getProvider,
+  registerProvider,
+  resolveProviderConfig,
+  usesServerKey,
+  type ProviderDefinition,
+  type ProviderFieldSpec
+} from './providerRegistry';
+
+export {
+  getProvider,
+  listProviders,
+  registerProvider,
+  registerProvidersFromConfig,
+  requiresKey,
+  usesServerKey
+} from './providerRegistry';
 
 const SYSTEM_INSTRUCTION = `You are an expert etymologist and historical linguist. When given a word, return its geographic and linguistic journey through history as structured JSON.
 
@@ -9,7 +31,8 @@ Guidelines:
 - Be historically accurate - if uncertain, note approximations.
 - routeType should reflect how the word likely traveled TO that location.
 - For each location, provide a name and the ISO 3166-1 alpha-2 country code.
-- For words with multiple etymology paths (like "tea"), choose the most historically significant route but mention alternatives in the narrative.
+- Give every date twice: "century" as display text, and "dates" with numeric startYear/endYear (negative for BCE) and approximate: true when the dating is uncertain.
+- For words with multiple etymology paths (like "tea" vs "cha"), include every significant branch. Set each step's "parent" to the order of the stage it came from (0 for the origin) so branches fork from the right place.
 - If a word has no clear geographic journey (coined recently, technical term, etc.), return fewer waypoints with the origin and current usage location.
 
 IMPORTANT: Return ONLY valid JSON matching the schema. No markdown, no explanations.`;
@@ -26,11 +49,13 @@ const JSON_SCHEMA = `{
       "countryCode": "string - ISO 3166-1 alpha-2",
       "coordinates": [longitude, latitude]
     },
-    "century": "string - e.g. '15th Century'"
+    "century": "string - e.g. '15th Century'",
+    "dates": { "startYear": 1401, "endYear": 1500, "approximate": false }
   },
   "journey": [
     {
       "order": 1,
+      "parent": "number - order of the stage this form came from (0 = origin)",
       "word": "string - word form in this language",
       "language": "string",
       "pronunciation": "string - IPA optional",
@@ -40,6 +65,7 @@ const JSON_SCHEMA = `{
         "coordinates": [longitude, latitude]
       },
       "century": "string",
+      "dates": { "startYear": "number - negative for BCE", "endYear": "number", "approximate": "boolean" },
       "routeType": "land" | "sea",
       "notes": "string - how/why word changed"
     }
@@ -51,7 +77,7 @@ const JSON_SCHEMA = `{
 
 const buildPrompt = (word: string, language: string = 'English') => {
   const languageInstruction = language && language !== 'English'
-    ? `\n\nIMPORTANT: Write all text content (currentMeaning, narrative, notes, funFact, routeSummary) in ${language}. Keep only the schema field names in English.`
+    ? `\n\nIMPORTANT: Write all text content (currentMeaning, narrative, notes, funFact, routeSummary, century) in ${language}. Keep only the schema field names and the numeric dates in English.`
     : '';
 
   return `Trace the etymological journey of the word: "${word}"
@@ -64,71 +90,173 @@ ${JSON_SCHEMA}
 Return ONLY the JSON object, no other text.`;
 };
 
+/** Follow-up prompt that shows the model its unusable output, the problem and the original request. */
+export const buildRepairPrompt = (originalPrompt: string, previousOutput: string, problem: string) => {
+  const excerpt = previousOutput.length > 4000 ? `${previousOutput.slice(0, 4000)}...` : previousOutput;
+
+  return `Your previous response could not be used.
+
+Problem: ${problem}
+
+Previous response:
+${excerpt || '(empty)'}
+
+Fix your output. ${originalPrompt}`;
+};
+
+/** Raised when a response contains no parseable JSON object. */
+export class JourneyParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JourneyParseError';
+  }
+}
+
+export const extractJson = (text: string): unknown => {
+  // Models might wrap the JSON in markdown or add commentary
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new JourneyParseError('No valid JSON in response');
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new JourneyParseError(`Response is not valid JSON: ${reason}`);
+  }
+};
+
+const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+
+/** Receives text deltas while a provider streams its response. */
+export type DeltaHandler = (text: string) => void;
+
 // ============== Gemini API ==============
-export async function fetchWordJourneyGeminiAPI(word: string, apiKey: string, language?: string): Promise<WordJourney> {
+export async function requestGeminiAPI(
+  prompt: string,
+  apiKey: string,
+  onDelta?: DeltaHandler,
+  system: string = SYSTEM_INSTRUCTION,
+  model: string = 'gemini-2.0-flash'
+): Promise<string> {
   const { GoogleGenerativeAI } = await import('@google/generative-ai');
   const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+  const generativeModel = genAI.getGenerativeModel({ model });
 
-  const result = await model.generateContent({
+  const request = {
     contents: [{
       role: 'user',
-      parts: [{ text: buildPrompt(word, language) }]
+      parts: [{ text: prompt }]
     }],
-    systemInstruction: SYSTEM_INSTRUCTION,
+    systemInstruction: system,
     generationConfig: {
       responseMimeType: 'application/json',
     }
-  });
+  };
 
-  const text = result.response.text();
-  return JSON.parse(text);
+  if (onDelta) {
+    const result = await generativeModel.generateContentStream(request);
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      text += delta;
+      onDelta(delta);
+    }
+    return text;
+  }
+
+  const result = await generativeModel.generateContent(request);
+  return result.response.text();
 }
 
 // ============== OpenAI API ==============
-export async function fetchWordJourneyOpenAI(word: string, apiKey: string, language?: string): Promise<WordJourney> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+/** Where an OpenAI-style chat completions request goes; the defaults are OpenAI's own API. */
+export interface OpenAIEndpoint {
+  /** Up to and including the version, e.g. http://localhost:8080/v1 */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** Ask for a JSON object response (not every compatible server supports it) */
+  jsonMode?: boolean;
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export async function requestOpenAI(
+  prompt: string,
+  apiKey: string | undefined,
+  onDelta?: DeltaHandler,
+  system: string = SYSTEM_INSTRUCTION,
+  model: string = 'gpt-4o-mini',
+  endpoint: OpenAIEndpoint = {}
+): Promise<string> {
+  const { baseUrl = OPENAI_BASE_URL, headers, jsonMode = true } = endpoint;
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
     method: 'POST',
     headers: {
+      ...headers,
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
+      // Local servers usually run without a key
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
     },
     body: JSON.stringify({
-      model: 'gpt-4o-mini',
+      model,
       messages: [
-        { role: 'system', content: SYSTEM_INSTRUCTION },
-        { role: 'user', content: buildPrompt(word, language) }
+        { role: 'system', content: system },
+        { role: 'user', content: prompt }
       ],
-      response_format: { type: 'json_object' }
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      stream: !!onDelta
     })
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API error');
+    // Compatible servers don't always answer errors with JSON
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || `OpenAI API error: ${response.status} ${response.statusText}`);
+  }
+
+  if (onDelta) {
+    let text = '';
+    await readSSE(response, ({ data }) => {
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    });
+    return text;
   }
 
   const data = await response.json();
-  return JSON.parse(data.choices[0].message.content);
+  return data.choices[0].message.content;
 }
 
 // ============== Anthropic API ==============
-export async function fetchWordJourneyAnthropic(word: string, apiKey: string, language?: string): Promise<WordJourney> {
+export async function requestAnthropic(
+  prompt: string,
+  apiKey: string,
+  onDelta?: DeltaHandler,
+  system: string = SYSTEM_INSTRUCTION,
+  model: string = 'claude-sonnet-4-20250514'
+): Promise<string> {
   const response = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'anthropic-dangerous-direct-browser-access': 'true'
+      'anthropic-version': '2023-06-01'
     },
     body: JSON.stringify({
-      model: 'claude-sonnet-4-20250514',
+      model,
       max_tokens: 4096,
-      system: SYSTEM_INSTRUCTION,
+      system,
       messages: [
-        { role: 'user', content: buildPrompt(word, language) }
-      ]
+        { role: 'user', content: prompt }
+      ],
+      stream: !!onDelta
     })
   });
 
@@ -137,28 +265,41 @@ export async function fetchWordJourneyAnthropic(word: string, apiKey: string, la
     throw new Error(error.error?.message || 'Anthropic API error');
   }
 
+  if (onDelta) {
+    let text = '';
+    await readSSE(response, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'error') {
+        throw new Error(payload.error?.message || 'Anthropic API error');
+      }
+      if (event === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+        text += payload.delta.text;
+        onDelta(payload.delta.text);
+      }
+    });
+    return text;
+  }
+
   const data = await response.json();
-  const text = data.content[0].text;
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) throw new Error('No valid JSON in Anthropic response');
-  return JSON.parse(jsonMatch[0]);
+  return data.content[0].text;
 }
 
 // ============== Ollama ==============
-export async function fetchWordJourneyOllama(
-  word: string,
+export async function requestOllama(
+  prompt: string,
   baseUrl: string = 'http://localhost:11434',
   model: string = 'llama3',
-  language?: string
-): Promise<WordJourney> {
+  onDelta?: DeltaHandler,
+  system: string = SYSTEM_INSTRUCTION
+): Promise<string> {
   const response = await fetch(`${baseUrl}/api/generate`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       model,
-      prompt: buildPrompt(word, language),
-      system: SYSTEM_INSTRUCTION,
-      stream: false,
+      prompt,
+      system,
+      stream: !!onDelta,
       format: 'json'
     })
   });
@@ -167,32 +308,47 @@ export async function fetchWordJourneyOllama(
     throw new Error(`Ollama error: ${response.statusText}`);
   }
 
-  const data = await response.json();
-  const text = data.response;
-
-  // Extract JSON from response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON in Ollama response');
+  if (onDelta) {
+    let text = '';
+    await readNDJSON(response, chunk => {
+      if (typeof chunk !== 'object' || chunk === null) return;
+      if ('error' in chunk && chunk.error) throw new Error(`Ollama error: ${chunk.error}`);
+      if ('response' in chunk && typeof chunk.response === 'string' && chunk.response) {
+        text += chunk.response;
+        onDelta(chunk.response);
+      }
+    });
+    return text;
   }
 
-  return JSON.parse(jsonMatch[0]);
+  const data = await response.json();
+  return data.response;
 }
 
 // ============== CLI Agents ==============
-export async function fetchWordJourneyCLI(
-  word: string,
+export interface CLICacheHint {
+  word: string;
+  language?: string;
+  refresh?: boolean;
+}
+
+export async function requestCLI(
+  prompt: string,
   provider: AIProvider,
   timeout = 60,
-  language?: string
-): Promise<WordJourney> {
+  cacheHint?: CLICacheHint,
+  onDelta?: DeltaHandler
+): Promise<string> {
+  // With a cache hint the server can answer from (and populate) its file cache
   const response = await fetch('/api/cli-agent', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       model: provider,
-      prompt: buildPrompt(word, language),
-      timeout
+      prompt,
+      timeout,
+      stream: !!onDelta,
+      ...cacheHint
     })
   });
 
@@ -200,19 +356,91 @@ export async function fetchWordJourneyCLI(
     throw new Error(`CLI agent error: ${response.statusText}`);
   }
 
+  if (onDelta) {
+    // The server relays the agent's stdout as Server-Sent Events
+    let output = '';
+    await readSSE(response, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'delta') onDelta(payload.text);
+      if (event === 'done') output = payload.output;
+      if (event === 'error') throw new Error(`CLI agent error: ${payload.error}`);
+    });
+    return output;
+  }
+
   const data = await response.json();
+  return data.output;
+}
 
-  // Extract JSON from response (models might include markdown)
-  const jsonMatch = data.output.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON in response');
+// ============== Server Proxy ==============
+// Providers with a keyEnv are called here when the key lives on the server (see POST /api/journey)
+export async function requestJourneyFromServer(
+  word: string,
+  config: AIProviderConfig,
+  options: Pick<FetchJourneyOptions, 'onProgress' | 'onDelta'> = {}
+): Promise<JourneyResult> {
+  const { provider, model, baseUrl, headers, timeout, responseLanguage, forceRefresh, maxRetries } = config;
+  const stream = !!(options.onProgress || options.onDelta);
+
+  const response = await fetch('/api/journey', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      word,
+      provider,
+      model,
+      baseUrl,
+      headers,
+      timeout,
+      maxRetries,
+      language: responseLanguage,
+      refresh: forceRefresh,
+      stream
+    })
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Journey API error: ${response.statusText}`);
+  }
+
+  if (!stream) {
+    return response.json();
   }
 
-  return JSON.parse(jsonMatch[0]);
+  let result: JourneyResult | null = null;
+  let attempt = 1;
+  let tracker = options.onProgress ? createPartialJourneyTracker(options.onProgress) : null;
+
+  await readSSE(response, ({ event, data }) => {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'attempt':
+        // A re-prompt starts over; drop what the failed attempt produced
+        attempt = payload.attempt;
+        if (options.onProgress) {
+          options.onProgress({ journey: [] });
+          tracker = createPartialJourneyTracker(options.onProgress);
+        }
+        break;
+      case 'delta':
+        tracker?.push(payload.text);
+        options.onDelta?.(payload.text, attempt);
+        break;
+      case 'result':
+        result = payload;
+        break;
+      case 'error':
+        throw new Error(payload.error);
+    }
+  });
+
+  if (!result) throw new Error('Journey stream ended without a result');
+  return result;
 }
 
 // ============== Mock Data ==============
-export async function fetchWordJourneyMock(word: string): Promise<WordJourney> {
+export async function requestMock(word: string, onDelta?: DeltaHandler): Promise<string> {
   const mockData: Record<string, WordJourney> = {
     coffee: {
       word: "coffee",
@@ -245,56 +473,354 @@ export async function fetchWordJourneyMock(word: string): Promise<WordJourney> {
         century: "3rd Century BCE"
       },
       journey: [
-        { order: 1, word: "tê", language: "Min Chinese (Hokkien)", pronunciation: "te", location: { name: "Xiamen, China", countryCode: "CN", coordinates: [118.08, 24.48] }, century: "16th Century", routeType: "land", notes: "Maritime trade variant pronunciation" },
-        { order: 2, word: "thee", language: "Dutch", location: { name: "Amsterdam, Netherlands", countryCode: "NL", coordinates: [4.9, 52.37] }, century: "17th Century", routeType: "sea", notes: "Dutch East India Company brought tea from Fujian" },
-        { order: 3, word: "tea", language: "English", location: { name: "London, England", countryCode: "GB", coordinates: [-0.12, 51.51] }, century: "17th Century", routeType: "sea", notes: "Borrowed from Dutch traders" }
+        { order: 1, parent: 0, word: "chā", language: "Persian", location: { name: "Samarkand, Uzbekistan", countryCode: "UZ", coordinates: [66.96, 39.65] }, century: "10th Century", routeType: "land", notes: "Overland Silk Road caravans carried the Mandarin 'cha' form west" },
+        { order: 2, parent: 0, word: "tê", language: "Min Chinese (Hokkien)", pronunciation: "te", location: { name: "Xiamen, China", countryCode: "CN", coordinates: [118.08, 24.48] }, century: "16th Century", routeType: "land", notes: "Maritime trade variant pronunciation" },
+        { order: 3, parent: 1, word: "чай (chay)", language: "Russian", location: { name: "Moscow, Russia", countryCode: "RU", coordinates: [37.62, 55.75] }, century: "17th Century", routeType: "land", notes: "Tea caravans through Mongolia and Siberia kept the 'cha' form" },
+        { order: 4, parent: 2, word: "thee", language: "Dutch", location: { name: "Amsterdam, Netherlands", countryCode: "NL", coordinates: [4.9, 52.37] }, century: "17th Century", routeType: "sea", notes: "Dutch East India Company brought tea from Fujian" },
+        { order: 5, parent: 4, word: "tea", language: "English", location: { name: "London, England", countryCode: "GB", coordinates: [-0.12, 51.51] }, century: "17th Century", routeType: "sea", notes: "Borrowed from Dutch traders" }
       ],
-      narrative: "The word 'tea' follows the maritime Silk Road from China to Europe...",
+      narrative: "The word 'tea' splits in two: the 'cha' form travels overland along the Silk Road, while the Hokkien 'te' follows the maritime Silk Road from China to Europe...",
       routeSummary: "MARITIME_SILK_ROAD",
       funFact: "'Tea'-like words indicate maritime trade, 'cha'-like words indicate overland Silk Road trade."
     }
   };
 
+  const normalizedWord = word.toLowerCase();
+  const text = mockData[normalizedWord] ? JSON.stringify(mockData[normalizedWord], null, 2) : null;
+
+  if (text && onDelta) {
+    // Trickle the JSON out over the same 1.5s so streaming can be tried without a provider
+    const chunkSize = Math.ceil(text.length / 30);
+    for (let i = 0; i < text.length; i += chunkSize) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      onDelta(text.slice(i, i + chunkSize));
+    }
+    return text;
+  }
+
   await new Promise(resolve => setTimeout(resolve, 1500));
 
-  const normalizedWord = word.toLowerCase();
-  if (mockData[normalizedWord]) {
-    return mockData[normalizedWord];
+  if (text) {
+    return text;
   }
 
   throw new Error(`Mock data not available for "${word}". Use a real AI provider or try: coffee, tea`);
 }
 
+// ============== Provider Registry ==============
+const API_KEY_FIELD: ProviderFieldSpec = { field: 'apiKey', label: 'API key', required: true };
+
+const modelField = (defaultModel: string): ProviderFieldSpec =>
+  ({ field: 'model', label: 'Model', default: defaultModel, placeholder: defaultModel });
+
+/** A CLI agent, run by the API server (or in-process via runCLI) under the provider's id. */
+export const cliAgentProvider = (id: AIProvider, name: string, description: string): ProviderDefinition => ({
+  id,
+  name,
+  description,
+  category: 'cli',
+  fields: [],
+  capabilities: { jsonMode: false, streaming: true },
+  complete: ({ prompt, cacheHint }, { provider, timeout }, { runCLI, onDelta }) =>
+    runCLI
+      ? runCLI(provider, prompt, timeout || 60, onDelta)
+      : requestCLI(prompt, provider, timeout || 60, cacheHint, onDelta)
+});
+
+const BUILT_IN_PROVIDERS: ProviderDefinition[] = [
+  cliAgentProvider('gemini', 'Gemini CLI', '1M tokens'),
+  cliAgentProvider('claude', 'Claude CLI', '200k tokens'),
+  cliAgentProvider('codex', 'Codex CLI', '128k'),
+  cliAgentProvider('qwen', 'Qwen CLI', 'General'),
+  {
+    id: 'gemini-api',
+    name: 'Gemini API',
+    description: 'Direct API',
+    category: 'api',
+    fields: [API_KEY_FIELD, modelField('gemini-2.0-flash')],
+    keyEnv: 'GEMINI_API_KEY',
+    capabilities: { jsonMode: true, streaming: true },
+    complete: ({ prompt, system }, { apiKey, model }, { onDelta }) => requestGeminiAPI(prompt, apiKey!, onDelta, system, model)
+  },
+  {
+    id: 'openai-api',
+    name: 'OpenAI API',
+    description: 'GPT-4o-mini',
+    category: 'api',
+    fields: [API_KEY_FIELD, modelField('gpt-4o-mini')],
+    keyEnv: 'OPENAI_API_KEY',
+    capabilities: { jsonMode: true, streaming: true },
+    complete: ({ prompt, system }, { apiKey, model }, { onDelta }) => requestOpenAI(prompt, apiKey!, onDelta, system, model)
+  },
+  {
+    id: 'anthropic-api',
+    name: 'Anthropic API',
+    description: 'Claude Sonnet',
+    category: 'api',
+    fields: [API_KEY_FIELD, modelField('claude-sonnet-4-20250514')],
+    keyEnv: 'ANTHROPIC_API_KEY',
+    capabilities: { jsonMode: false, streaming: true },
+    complete: ({ prompt, system }, { apiKey, model }, { onDelta }) => requestAnthropic(prompt, apiKey!, onDelta, system, model)
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    description: 'Local LLM',
+    category: 'local',
+    fields: [
+      { field: 'baseUrl', label: 'Base URL', required: true, default: 'http://localhost:11434', placeholder: 'http://localhost:11434' },
+      { ...modelField('llama3'), required: true }
+    ],
+    baseUrlEnv: 'OLLAMA_BASE_URL',
+    capabilities: { jsonMode: true, streaming: true },
+    complete: ({ prompt, system }, { baseUrl, model }, { onDelta }) => requestOllama(prompt, baseUrl, model, onDelta, system),
+    // Through the API server, which can reach an Ollama the browser can't (CORS)
+    listModels: async ({ baseUrl }) => {
+      const response = await fetch(`/api/ollama/tags?baseUrl=${encodeURIComponent(baseUrl ?? '')}`);
+      const data = await response.json();
+      if (data.error) throw new Error(data.message || 'Ollama not available');
+      return (data.models ?? []).map(({ name, size }: { name: string; size?: number }) => ({ name, size }));
+    }
+  },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI-Compatible',
+    description: 'LM Studio, llama.cpp, vLLM...',
+    category: 'local',
+    fields: [
+      { field: 'baseUrl', label: 'Base URL', required: true, default: 'http://localhost:8080/v1', placeholder: 'http://localhost:8080/v1' },
+      { field: 'model', label: 'Model', required: true, placeholder: 'Refresh to list models' },
+      { field: 'headers', label: 'Headers', placeholder: 'HTTP-Referer: https://example.com' },
+      { ...API_KEY_FIELD, required: false }
+    ],
+    keyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+    baseUrlEnv: 'OPENAI_COMPATIBLE_BASE_URL',
+    // Servers disagree on response_format (LM Studio only takes a JSON schema), so JSON is asked for in the prompt
+    capabilities: { jsonMode: false, streaming: true },
+    complete: ({ prompt, system }, { apiKey, model, baseUrl, headers }, { onDelta }) =>
+      requestOpenAI(prompt, apiKey, onDelta, system, model, { baseUrl, headers, jsonMode: false }),
+    // Through the API server, which adds the key and reaches servers without CORS
+    listModels: async ({ baseUrl, headers }) => {
+      const params = new URLSearchParams({ baseUrl: baseUrl ?? '' });
+      if (headers) params.set('headers', JSON.stringify(headers));
+      const response = await fetch(`/api/openai-compatible/models?${params}`);
+      const data = await response.json();
+      if (data.error) throw new Error(data.message || 'Server not available');
+      return (data.data ?? []).map(({ id }: { id: string }) => ({ name: id }));
+    }
+  },
+  {
+    id: 'mock',
+    name: 'Mock',
+    description: 'Sample journeys (coffee, tea)',
+    category: 'offline',
+    fields: [],
+    capabilities: { jsonMode: true, streaming: true },
+    complete: (request, _config, { onDelta }) => request.mock(onDelta)
+  }
+];
+
+BUILT_IN_PROVIDERS.forEach(registerProvider);
+
 // ============== Main Entry Point ==============
+export interface FetchJourneyOptions {
+  /** Cache to consult and populate; defaults to IndexedDB in the browser. Pass null to disable. */
+  cache?: JourneyCache | null;
+  /** Runs CLI agents in-process (API server) instead of calling POST /api/cli-agent. */
+  runCLI?: (provider: AIProvider, prompt: string, timeout: number, onDelta?: DeltaHandler) => Promise<string>;
+  /** Streams the response, reporting the origin and each step as soon as it is complete. */
+  onProgress?: (partial: PartialJourney) => void;
+  /** Raw text deltas of the current attempt (the API server relays these over SSE). */
+  onDelta?: (text: string, attempt: number) => void;
+  /**
+   * Further providers to ask in parallel with `config`. Their answers are merged
+   * into one journey with per-stage agreement scores (see consensus.ts).
+   */
+  consensus?: AIProviderConfig[];
+}
+
+/** One structured query, independent of which provider answers it. */
+export interface CompletionRequest {
+  prompt: string;
+  system: string;
+  /** Offline answer used by the mock provider */
+  mock: (onDelta?: DeltaHandler) => Promise<string>;
+  /** Lets the API server answer CLI calls from its journey cache */
+  cacheHint?: CLICacheHint;
+}
+
+export interface RepairLoopOptions {
+  runCLI?: FetchJourneyOptions['runCLI'];
+  /** Delta handler for a given attempt; returning one turns on streaming */
+  deltaHandlerFor?: (attempt: number) => DeltaHandler | undefined;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+
+function requestCompletion(
+  request: CompletionRequest,
+  config: AIProviderConfig,
+  runCLI?: FetchJourneyOptions['runCLI'],
+  onDelta?: DeltaHandler
+): Promise<string> {
+  const definition = getProvider(config.provider);
+  if (!definition) throw new Error(`Unknown provider "${config.provider}"`);
+  return definition.complete(request, resolveProviderConfig(definition, config), { runCLI, onDelta });
+}
+
+/**
+ * Sends a request and parses the answer; unparseable or invalid output is sent
+ * back to the model with the problem, up to config.maxRetries times.
+ * Provider/network failures are not retried.
+ */
+export async function completeWithRepairs<T>(
+  request: CompletionRequest,
+  config: AIProviderConfig,
+  parse: (text: string) => { data: T; repairs: ValidationIssue[] },
+  options: RepairLoopOptions = {}
+): Promise<{ data: T; attempts: number; repairs: ValidationIssue[] }> {
+  const maxRetries = Math.max(0, config.maxRetries ?? DEFAULT_MAX_RETRIES);
+  let current = request;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const output = await requestCompletion(current, config, options.runCLI, options.deltaHandlerFor?.(attempt));
+
+    try {
+      const { data, repairs } = parse(output);
+      if (repairs.length > 0) {
+        console.warn(`[journey] Repaired ${repairs.length} field(s):`, repairs);
+      }
+      return { data, attempts: attempt, repairs };
+    } catch (error) {
+      if (!(error instanceof JourneyParseError || error instanceof JourneyValidationError)) throw error;
+      lastError = error;
+
+      const problem = error instanceof JourneyValidationError
+        ? `The JSON did not match the schema:\n${formatIssues(error.issues)}`
+        : error.message;
+      console.warn(`[journey] Attempt ${attempt} failed: ${error.message}`);
+      // Cached answers only make sense for the original prompt
+      current = { ...request, prompt: buildRepairPrompt(request.prompt, output, problem), cacheHint: undefined };
+    }
+  }
+
+  throw new Error(`${lastError?.message ?? 'Invalid response'} (after ${maxRetries + 1} attempts)`);
+}
+
+/**
+ * Parses and validates a raw model response. Throws JourneyParseError or
+ * JourneyValidationError so the caller can feed the problem back to the model.
+ */
+export function parseJourneyResponse(text: string): { journey: WordJourney; repairs: ValidationIssue[] } {
+  const result = validateWordJourney(extractJson(text));
+  if (!result.valid || !result.data) {
+    throw new JourneyValidationError(result.errors);
+  }
+  return { journey: result.data, repairs: result.repairs };
+}
+
+async function fetchConsensusJourney(
+  word: string,
+  configs: AIProviderConfig[],
+  options: FetchJourneyOptions
+): Promise<JourneyResult> {
+  // Answers arrive in parallel, so there is no single stream to report
+  const single: FetchJourneyOptions = { cache: options.cache, runCLI: options.runCLI };
+  const settled = await Promise.allSettled(configs.map(config => fetchWordJourney(word, config, single)));
+
+  const answers: ProviderAnswer[] = [];
+  const results: JourneyResult[] = [];
+  const failed: { provider: AIProvider; error: string }[] = [];
+  settled.forEach((outcome, idx) => {
+    if (outcome.status === 'fulfilled') {
+      answers.push({ provider: configs[idx].provider, journey: outcome.value.journey });
+      results.push(outcome.value);
+    } else {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      failed.push({ provider: configs[idx].provider, error });
+    }
+  });
+
+  if (answers.length === 0) {
+    throw new Error(`All providers failed: ${failed.map(f => `${f.provider}: ${f.error}`).join('; ')}`);
+  }
+
+  return {
+    journey: mergeJourneys(answers, failed),
+    attempts: results.reduce((sum, result) => sum + result.attempts, 0),
+    repairs: results.flatMap(result => result.repairs),
+    cached: results.every(result => result.cached)
+  };
+}
+
 export async function fetchWordJourney(
   word: string,
-  config: AIProviderConfig
-): Promise<WordJourney> {
-  const { provider, apiKey, baseUrl, model, timeout, responseLanguage } = config;
-
-  switch (provider) {
-    case 'gemini-api':
-      if (!apiKey) throw new Error('API key required for Gemini API');
-      return fetchWordJourneyGeminiAPI(word, apiKey, responseLanguage);
-
-    case 'openai-api':
-      if (!apiKey) throw new Error('API key required for OpenAI API');
-      return fetchWordJourneyOpenAI(word, apiKey, responseLanguage);
-
-    case 'anthropic-api':
-      if (!apiKey) throw new Error('API key required for Anthropic API');
-      return fetchWordJourneyAnthropic(word, apiKey, responseLanguage);
-
-    case 'ollama':
-      return fetchWordJourneyOllama(word, baseUrl || 'http://localhost:11434', model || 'llama3', responseLanguage);
-
-    case 'gemini':
-    case 'claude':
-    case 'codex':
-    case 'qwen':
-      return fetchWordJourneyCLI(word, provider, timeout || 60, responseLanguage);
-
-    default:
-      return fetchWordJourneyMock(word);
+  config: AIProviderConfig,
+  options: FetchJourneyOptions = {}
+): Promise<JourneyResult> {
+  if (options.consensus?.length) {
+    return fetchConsensusJourney(word, [config, ...options.consensus], options);
+  }
+
+  const cache = options.cache === undefined ? getDefaultJourneyCache() : options.cache;
+  const cacheKey = journeyCacheKey({
+    word,
+    provider: config.provider,
+    model: config.model,
+    language: config.responseLanguage,
+    baseUrl: config.baseUrl || getProvider(config.provider)?.fields.find(spec => spec.field === 'baseUrl')?.default
+  });
+
+  if (cache && !config.forceRefresh) {
+    const entry = await cache.get(cacheKey).catch(() => null);
+    if (entry) {
+      return { journey: entry.journey, attempts: 0, repairs: [], cached: true, cachedAt: entry.createdAt };
+    }
+  }
+
+  // Without a key in hand, let the API server call the provider with its own
+  if (!config.apiKey && usesServerKey(config.provider)) {
+    const result = await requestJourneyFromServer(word, config, options);
+    if (cache) {
+      await cache.set(cacheKey, result.journey, config.cacheTtl)
+        .catch(error => console.warn('[journey] Failed to write cache:', error));
+    }
+    return result;
+  }
+
+  const streaming = !!(options.onProgress || options.onDelta) && !!getProvider(config.provider)?.capabilities.streaming;
+  const { data: journey, attempts, repairs } = await completeWithRepairs(
+    {
+      prompt: buildPrompt(word, config.responseLanguage),
+      system: SYSTEM_INSTRUCTION,
+      mock: onDelta => requestMock(word, onDelta),
+      cacheHint: { word, language: config.responseLanguage, refresh: config.forceRefresh }
+    },
+    config,
+    text => {
+      const { journey, repairs } = parseJourneyResponse(text);
+      return { data: journey, repairs };
+    },
+    {
+      runCLI: options.runCLI,
+      deltaHandlerFor: streaming
+        ? attempt => {
+            // Each attempt starts from scratch, so the partial journey does too
+            if (attempt > 1) options.onProgress?.({ journey: [] });
+            const tracker = options.onProgress ? createPartialJourneyTracker(options.onProgress) : null;
+            return text => {
+              tracker?.push(text);
+              options.onDelta?.(text, attempt);
+            };
+          }
+        : undefined
+    }
+  );
+
+  if (cache) {
+    await cache.set(cacheKey, journey, config.cacheTtl)
+      .catch(error => console.warn('[journey] Failed to write cache:', error));
   }
+  return { journey, attempts, repairs, cached: false };
 }
@@ -0,0 +1,93 @@
+import * as topojson from 'topojson-client';
+import type { GeometryObject, MultiPolygon, Objects, Polygon, Topology } from 'topojson-specification';
+import type { Feature, FeatureCollection } from 'geojson';
+import countries110mUrl from 'world-atlas/countries-110m.json?url';
+import countries50mUrl from 'world-atlas/countries-50m.json?url';
+
+/**
+ * Where the map's country shapes come from. The world-atlas topologies ship
+ * with the app as static assets, so the map needs no network; a custom
+ * TopoJSON can be loaded from a URL or from a local file instead.
+ */
+
+export type BasemapResolution = '110m' | '50m';
+
+export type BasemapSource =
+  | { type: 'bundled'; resolution: BasemapResolution }
+  | { type: 'url'; url: string }
+  | { type: 'file'; name: string; text: string };
+
+export interface Basemap {
+  countries: FeatureCollection;
+  land: FeatureCollection | Feature;   // Used for sea and land routing
+}
+
+export const DEFAULT_BASEMAP: BasemapSource = { type: 'bundled', resolution: '110m' };
+
+const BUNDLED_URLS: Record<BasemapResolution, string> = {
+  '110m': countries110mUrl,
+  '50m': countries50mUrl
+};
+
+const STORAGE_KEY = 'wanderword_basemap';
+
+const asFeatureCollection = (value: FeatureCollection | Feature): FeatureCollection =>
+  value.type === 'FeatureCollection' ? value : { type: 'FeatureCollection', features: [value] };
+
+// Only polygons can be merged into land
+const isPolygonal = (geometry: GeometryObject): geometry is Polygon | MultiPolygon =>
+  geometry.type === 'Polygon' || geometry.type === 'MultiPolygon';
+
+/**
+ * Reads countries and land from a topology. Uses its `countries` and `land`
+ * objects when present (world-atlas layout); otherwise the first object is
+ * taken as countries and land is merged from it.
+ */
+export function parseBasemap(input: unknown): Basemap {
+  const topology = input as Topology<Objects>;
+  if (!topology || topology.type !== 'Topology' || !topology.objects) {
+    throw new Error('Not a TopoJSON topology');
+  }
+
+  const { objects } = topology;
+  const countriesObject = objects.countries ?? Object.values(objects)[0];
+  if (!countriesObject) throw new Error('Topology has no objects');
+
+  const countries = asFeatureCollection(topojson.feature(topology, countriesObject) as FeatureCollection | Feature);
+  const land = objects.land
+    ? topojson.feature(topology, objects.land) as FeatureCollection | Feature
+    : countriesObject.type === 'GeometryCollection'
+      ? { type: 'Feature' as const, properties: {}, geometry: topojson.merge(topology, countriesObject.geometries.filter(isPolygonal)) }
+      : countries;
+
+  return { countries, land };
+}
+
+export async function loadBasemap(source: BasemapSource): Promise<Basemap> {
+  if (source.type === 'file') return parseBasemap(JSON.parse(source.text));
+
+  const url = source.type === 'bundled' ? BUNDLED_URLS[source.resolution] : source.url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Basemap request failed: ${response.status} ${response.statusText}`);
+  return parseBasemap(await response.json());
+}
+
+/** Last bundled or URL source; local files are not kept across reloads. */
+export function loadSavedBasemapSource(): BasemapSource {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved?.type === 'bundled' && saved.resolution in BUNDLED_URLS) return saved;
+    if (saved?.type === 'url' && typeof saved.url === 'string') return saved;
+  } catch {
+    // Fall through to the default
+  }
+  return DEFAULT_BASEMAP;
+}
+
+export function saveBasemapSource(source: BasemapSource) {
+  if (source.type === 'file') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(source));
+}
+
+export const describeBasemap = (source: BasemapSource) =>
+  source.type === 'bundled' ? source.resolution : source.type === 'url' ? 'url' : source.name;
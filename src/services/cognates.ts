@@ -0,0 +1,179 @@
+import type { AIProviderConfig, CognateFanout, CognateResult } from '@/types';
+import { validateCognateFanout, JourneyValidationError } from './journeyValidator';
+import {
+  completeWithRepairs,
+  extractJson,
+  usesServerKey,
+  type FetchJourneyOptions
+} from './aiProvider';
+
+/**
+ * Cognate fan-out mode: instead of tracing how one word arrived, start from a
+ * root (Latin "caseus") and ask where it ended up (cheese, Käse, queso, kaas...).
+ * Uses the same providers and repair loop as fetchWordJourney.
+ */
+
+const COGNATE_SYSTEM_INSTRUCTION = `You are an expert etymologist and historical linguist. When given a root word and its language, return the words it became in other languages as structured JSON.
+
+Guidelines:
+- Coordinates must be [longitude, latitude] format (longitude first for GeoJSON compatibility)
+- Include 4-12 descendants across as many different languages as the evidence supports.
+- Only include genuine descendants and borrowings of the root, not look-alikes.
+- Place each descendant where that language form is centered, with the ISO 3166-1 alpha-2 country code.
+- routeType should reflect how the root likely traveled TO that location.
+- Give every date twice: "century" as display text, and "dates" with numeric startYear/endYear (negative for BCE) and approximate: true when the dating is uncertain.
+- Be historically accurate - if uncertain, note approximations.
+
+IMPORTANT: Return ONLY valid JSON matching the schema. No markdown, no explanations.`;
+
+const COGNATE_JSON_SCHEMA = `{
+  "root": "string - the root as given",
+  "origin": {
+    "word": "string - the root form",
+    "language": "string - e.g. 'Latin', 'Proto-Germanic'",
+    "meaning": "string - original meaning",
+    "location": {
+      "name": "string - city/region name",
+      "countryCode": "string - ISO 3166-1 alpha-2",
+      "coordinates": [longitude, latitude]
+    },
+    "century": "string - e.g. '1st Century BCE'",
+    "dates": { "startYear": -100, "endYear": -1, "approximate": false }
+  },
+  "descendants": [
+    {
+      "word": "string - descendant form",
+      "language": "string",
+      "meaning": "string - modern meaning",
+      "pronunciation": "string - IPA optional",
+      "location": {
+        "name": "string",
+        "countryCode": "string",
+        "coordinates": [longitude, latitude]
+      },
+      "century": "string - when the form is first attested",
+      "dates": { "startYear": "number - negative for BCE", "endYear": "number", "approximate": "boolean" },
+      "routeType": "land" | "sea",
+      "notes": "string - how the form developed"
+    }
+  ],
+  "narrative": "string - 1-2 paragraphs on how the root spread",
+  "funFact": "string - optional interesting tidbit"
+}`;
+
+const buildCognatePrompt = (root: string, sourceLanguage: string, language: string = 'English') => {
+  const languageInstruction = language && language !== 'English'
+    ? `\n\nIMPORTANT: Write all text content (meaning, narrative, notes, funFact, century) in ${language}. Keep only the schema field names and the numeric dates in English.`
+    : '';
+
+  return `List the descendants of the ${sourceLanguage} root: "${root}"
+
+${COGNATE_SYSTEM_INSTRUCTION}${languageInstruction}
+
+Respond with JSON matching this schema:
+${COGNATE_JSON_SCHEMA}
+
+Return ONLY the JSON object, no other text.`;
+};
+
+export async function requestCognateMock(root: string): Promise<string> {
+  const mockData: Record<string, CognateFanout> = {
+    caseus: {
+      root: "caseus",
+      origin: {
+        word: "caseus",
+        language: "Latin",
+        meaning: "Cheese",
+        location: { name: "Rome, Italy", countryCode: "IT", coordinates: [12.5, 41.9] },
+        century: "1st Century BCE"
+      },
+      descendants: [
+        { word: "cheese", language: "English", meaning: "Food made from pressed milk curds", location: { name: "London, England", countryCode: "GB", coordinates: [-0.12, 51.51] }, century: "9th Century", routeType: "sea", notes: "Old English cēse, borrowed by West Germanic tribes before they crossed to Britain" },
+        { word: "Käse", language: "German", meaning: "Cheese", location: { name: "Frankfurt, Germany", countryCode: "DE", coordinates: [8.68, 50.11] }, century: "8th Century", routeType: "land", notes: "Old High German chāsi, an early loan from Roman traders on the Rhine" },
+        { word: "kaas", language: "Dutch", meaning: "Cheese", location: { name: "Utrecht, Netherlands", countryCode: "NL", coordinates: [5.12, 52.09] }, century: "10th Century", routeType: "land", notes: "Middle Dutch kāse, from the same West Germanic loan" },
+        { word: "queso", language: "Spanish", meaning: "Cheese", location: { name: "Toledo, Spain", countryCode: "ES", coordinates: [-4.02, 39.86] }, century: "10th Century", routeType: "land", notes: "Inherited directly from Vulgar Latin caseu" },
+        { word: "queijo", language: "Portuguese", meaning: "Cheese", location: { name: "Coimbra, Portugal", countryCode: "PT", coordinates: [-8.43, 40.2] }, century: "12th Century", routeType: "land", notes: "Inherited from Latin through Galician-Portuguese" },
+        { word: "caş", language: "Romanian", meaning: "Fresh unripened cheese", location: { name: "Cluj-Napoca, Romania", countryCode: "RO", coordinates: [23.6, 46.77] }, century: "16th Century", routeType: "land", notes: "Eastern Romance kept the word for young cheese" },
+        { word: "caws", language: "Welsh", meaning: "Cheese", location: { name: "Aberystwyth, Wales", countryCode: "GB", coordinates: [-4.08, 52.41] }, century: "12th Century", routeType: "land", notes: "Borrowed from Latin during Roman Britain" }
+      ],
+      narrative: "Most of Europe names cheese after the Latin caseus. Germanic peoples borrowed it from Roman traders, while Spanish, Portuguese and Romanian inherited it directly. French and Italian are the exceptions: fromage and formaggio come from (caseus) formaticus, 'cheese shaped in a mould'.",
+      funFact: "The Latin word survives in English twice: in 'cheese' and, via caseinum, in 'casein'."
+    }
+  };
+
+  const text = mockData[root.toLowerCase()] ? JSON.stringify(mockData[root.toLowerCase()], null, 2) : null;
+
+  await new Promise(resolve => setTimeout(resolve, 1500));
+
+  if (text) {
+    return text;
+  }
+
+  throw new Error(`Mock data not available for root "${root}". Use a real AI provider or try: caseus`);
+}
+
+/** Parses and validates a raw fan-out response; throws like parseJourneyResponse. */
+export function parseCognateResponse(text: string): { fanout: CognateFanout; repairs: CognateResult['repairs'] } {
+  const result = validateCognateFanout(extractJson(text));
+  if (!result.valid || !result.data) {
+    throw new JourneyValidationError(result.errors);
+  }
+  return { fanout: result.data, repairs: result.repairs };
+}
+
+async function requestCognatesFromServer(
+  root: string,
+  sourceLanguage: string,
+  config: AIProviderConfig
+): Promise<CognateResult> {
+  const { provider, model, baseUrl, headers, timeout, responseLanguage, maxRetries } = config;
+
+  const response = await fetch('/api/cognates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      root,
+      sourceLanguage,
+      provider,
+      model,
+      baseUrl,
+      headers,
+      timeout,
+      maxRetries,
+      language: responseLanguage
+    })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Cognates API error: ${response.statusText}`);
+  }
+  return data;
+}
+
+export async function fetchCognateFanout(
+  root: string,
+  sourceLanguage: string,
+  config: AIProviderConfig,
+  options: Pick<FetchJourneyOptions, 'runCLI'> = {}
+): Promise<CognateResult> {
+  if (!config.apiKey && usesServerKey(config.provider)) {
+    return requestCognatesFromServer(root, sourceLanguage, config);
+  }
+
+  const { data: fanout, attempts, repairs } = await completeWithRepairs(
+    {
+      prompt: buildCognatePrompt(root, sourceLanguage, config.responseLanguage),
+      system: COGNATE_SYSTEM_INSTRUCTION,
+      mock: () => requestCognateMock(root)
+    },
+    config,
+    text => {
+      const { fanout, repairs } = parseCognateResponse(text);
+      return { data: fanout, repairs };
+    },
+    { runCLI: options.runCLI }
+  );
+
+  return { fanout, attempts, repairs };
+}
@@ -0,0 +1,209 @@
+import type {
+  AIProvider,
+  Coordinates,
+  ConsensusField,
+  DateRange,
+  JourneyConsensus,
+  JourneyStep,
+  StageConsensus,
+  WordJourney
+} from '@/types';
+import { getStageYear } from '@/utils/century';
+import { ORIGIN_ORDER } from '@/utils/journeyTree';
+
+/**
+ * Merges journeys for the same word from several providers.
+ *
+ * The first answer is the reference: every other provider's steps are aligned
+ * to its stages by language and location, each field is decided by majority
+ * vote, and the share of providers behind each value is kept as an agreement
+ * score. Stages that only other providers mention are not added.
+ */
+
+export interface ProviderAnswer {
+  provider: AIProvider;
+  journey: WordJourney;
+}
+
+interface Stage {
+  order: number;
+  word: string;
+  language: string;
+  century: string;
+  dates?: DateRange;
+  location: Coordinates;
+}
+
+const CONSENSUS_FIELDS: ConsensusField[] = ['word', 'language', 'century', 'location'];
+
+/** Places closer than this (in degrees) are the same place */
+const SAME_PLACE_DEG = 5;
+/** Dates closer than this (in years) are the same period */
+const SAME_PERIOD_YEARS = 100;
+/** Minimum alignment score for two steps to count as the same stage */
+const MATCH_THRESHOLD = 0.5;
+
+const normalizeText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const degreesBetween = (a: Coordinates, b: Coordinates) =>
+  Math.hypot(a.coordinates[0] - b.coordinates[0], a.coordinates[1] - b.coordinates[1]);
+
+// "English" and "Middle English" are treated as the same language; "Old Norse" and "Old English" are not
+const sameLanguage = (a: string, b: string) => {
+  const tokensA = normalizeText(a).split(' ');
+  const tokensB = normalizeText(b).split(' ');
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return shorter.every(token => longer.includes(token));
+};
+
+const samePeriod = (a: Stage, b: Stage) => {
+  const yearA = getStageYear(a);
+  const yearB = getStageYear(b);
+  if (yearA === null || yearB === null) return normalizeText(a.century) === normalizeText(b.century);
+  return Math.abs(yearA - yearB) <= SAME_PERIOD_YEARS;
+};
+
+const FIELD_EQUALS: Record<ConsensusField, (a: Stage, b: Stage) => boolean> = {
+  word: (a, b) => normalizeText(a.word) === normalizeText(b.word),
+  language: (a, b) => sameLanguage(a.language, b.language),
+  century: samePeriod,
+  location: (a, b) => degreesBetween(a.location, b.location) <= SAME_PLACE_DEG
+};
+
+const describeField = (stage: Stage, field: ConsensusField) =>
+  field === 'location' ? stage.location.name : stage[field];
+
+const toStages = (journey: WordJourney): Stage[] => [
+  { ...journey.origin, order: ORIGIN_ORDER },
+  ...journey.journey
+];
+
+const matchScore = (a: Stage, b: Stage) => {
+  const place = Math.max(0, 1 - degreesBetween(a.location, b.location) / (4 * SAME_PLACE_DEG));
+  return (sameLanguage(a.language, b.language) ? 0.6 : 0) + place * 0.4;
+};
+
+/** For each reference stage, the matching stage of `other` (origins always match). */
+function alignStages(reference: Stage[], other: Stage[]): (Stage | null)[] {
+  const used = new Set<number>();
+
+  return reference.map(stage => {
+    if (stage.order === ORIGIN_ORDER) return other[0];
+
+    let bestIndex = -1;
+    let bestScore = MATCH_THRESHOLD;
+    for (let index = 1; index < other.length; index++) {
+      if (used.has(index)) continue;
+      const score = matchScore(stage, other[index]);
+      if (score >= bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    }
+
+    if (bestIndex < 0) return null;
+    used.add(bestIndex);
+    return other[bestIndex];
+  });
+}
+
+/** Groups the providers' values into clusters of equivalent answers, largest first. */
+function clusterValues(entries: { provider: AIProvider; stage: Stage }[], field: ConsensusField) {
+  const clusters: { provider: AIProvider; stage: Stage }[][] = [];
+  for (const entry of entries) {
+    const cluster = clusters.find(c => FIELD_EQUALS[field](c[0].stage, entry.stage));
+    if (cluster) cluster.push(entry); else clusters.push([entry]);
+  }
+  // Stable sort keeps the reference provider's cluster first on ties
+  return clusters.sort((a, b) => b.length - a.length);
+}
+
+export function mergeJourneys(answers: ProviderAnswer[], failed: JourneyConsensus['failed'] = []): WordJourney {
+  if (answers.length === 0) throw new Error('No provider answers to merge');
+
+  const [reference, ...others] = answers;
+  const referenceStages = toStages(reference.journey);
+  const alignments = others.map(answer => alignStages(referenceStages, toStages(answer.journey)));
+
+  const stages: StageConsensus[] = [];
+  const merged = referenceStages.map((stage, idx) => {
+    const entries = [
+      { provider: reference.provider, stage },
+      ...others.flatMap((answer, i) => {
+        const match = alignments[i][idx];
+        return match ? [{ provider: answer.provider, stage: match }] : [];
+      })
+    ];
+
+    const next: Stage = { ...stage };
+    const fields = {} as Record<ConsensusField, number>;
+    const disagreements: string[] = [];
+
+    for (const field of CONSENSUS_FIELDS) {
+      const clusters = clusterValues(entries, field);
+      const winner = clusters[0];
+      fields[field] = winner.length / entries.length;
+
+      if (field === 'location') {
+        next.location = winner[0].stage.location;
+      } else if (field === 'century') {
+        next.century = winner[0].stage.century;
+        next.dates = winner[0].stage.dates;
+      } else {
+        next[field] = winner[0].stage[field];
+      }
+
+      if (clusters.length > 1) {
+        disagreements.push(`${field}: ${clusters
+          .map(cluster => `${describeField(cluster[0].stage, field)} (${cluster.map(e => e.provider).join(', ')})`)
+          .join(' / ')}`);
+      }
+    }
+
+    const missing = answers.filter(answer => !entries.some(entry => entry.provider === answer.provider));
+    if (missing.length > 0) {
+      disagreements.push(`missing from: ${missing.map(answer => answer.provider).join(', ')}`);
+    }
+
+    const support = entries.length / answers.length;
+    const meanField = CONSENSUS_FIELDS.reduce((sum, field) => sum + fields[field], 0) / CONSENSUS_FIELDS.length;
+    stages.push({ order: stage.order, support, fields, agreement: support * meanField, disagreements });
+    return next;
+  });
+
+  const [origin, ...steps] = merged;
+  const consensus: JourneyConsensus = {
+    providers: answers.map(answer => answer.provider),
+    failed,
+    score: stages.reduce((sum, stage) => sum + stage.agreement, 0) / stages.length,
+    stages
+  };
+
+  return {
+    ...reference.journey,
+    origin: {
+      ...reference.journey.origin,
+      word: origin.word,
+      language: origin.language,
+      century: origin.century,
+      dates: origin.dates,
+      location: origin.location
+    },
+    journey: reference.journey.journey.map((step, idx): JourneyStep => ({
+      ...step,
+      word: steps[idx].word,
+      language: steps[idx].language,
+      century: steps[idx].century,
+      dates: steps[idx].dates,
+      location: steps[idx].location
+    })),
+    consensus
+  };
+}
@@ -0,0 +1,87 @@
+import * as d3 from 'd3';
+import type { Feature, FeatureCollection, Polygon, MultiPolygon } from 'geojson';
+import era0001Url from '@/data/eras/0001.json?url';
+import era0800Url from '@/data/eras/0800.json?url';
+import era1200Url from '@/data/eras/1200.json?url';
+import era1500Url from '@/data/eras/1500.json?url';
+import era1700Url from '@/data/eras/1700.json?url';
+import era1900Url from '@/data/eras/1900.json?url';
+
+/**
+ * Historical political boundaries, one GeoJSON snapshot per era, bundled
+ * with the app. Each feature is a polity with `name` and `color`
+ * properties. The bundled outlines are deliberately coarse: the map clips
+ * them to the basemap's land, so they only need to be right inland.
+ */
+
+export interface EraSnapshot {
+  id: string;
+  year: number;     // Year the snapshot depicts; negative years are BCE
+  label: string;
+  url: string;
+}
+
+export interface EraPolity {
+  name: string;
+  color: string;
+}
+
+export type EraBasemap = FeatureCollection<Polygon | MultiPolygon, EraPolity>;
+
+export const ERA_SNAPSHOTS: EraSnapshot[] = [
+  { id: '0001', year: 1, label: '1 CE', url: era0001Url },
+  { id: '0800', year: 800, label: '800 CE', url: era0800Url },
+  { id: '1200', year: 1200, label: '1200 CE', url: era1200Url },
+  { id: '1500', year: 1500, label: '1500 CE', url: era1500Url },
+  { id: '1700', year: 1700, label: '1700 CE', url: era1700Url },
+  { id: '1900', year: 1900, label: '1900 CE', url: era1900Url }
+];
+
+/** Years from here on are shown with today's borders */
+const MODERN_YEAR = 2000;
+/** Stages further than this (in years) from every snapshot get no era layer */
+const MAX_ERA_GAP = 500;
+
+/** Snapshot closest to a year, or null when modern borders fit better or no snapshot is close. */
+export function findEra(year: number | null): EraSnapshot | null {
+  if (year === null) return null;
+
+  let best: EraSnapshot | null = null;
+  let bestGap = Math.abs(MODERN_YEAR - year);
+  for (const era of ERA_SNAPSHOTS) {
+    const gap = Math.abs(era.year - year);
+    if (gap < bestGap) {
+      best = era;
+      bestGap = gap;
+    }
+  }
+  return best && bestGap <= MAX_ERA_GAP ? best : null;
+}
+
+// d3 expects clockwise exterior rings (GeoJSON files often use the opposite);
+// a shape covering more than half the globe is wound the wrong way round
+const rewind = <T extends Feature<Polygon | MultiPolygon, EraPolity>>(feature: T): T => {
+  if (d3.geoArea(feature) <= 2 * Math.PI) return feature;
+  const reverseRings = (rings: number[][][]) => rings.map(ring => [...ring].reverse());
+  const geometry = feature.geometry.type === 'Polygon'
+    ? { ...feature.geometry, coordinates: reverseRings(feature.geometry.coordinates) }
+    : { ...feature.geometry, coordinates: feature.geometry.coordinates.map(reverseRings) };
+  return { ...feature, geometry } as T;
+};
+
+const cache = new Map<string, Promise<EraBasemap>>();
+
+export function loadEraBasemap(era: EraSnapshot): Promise<EraBasemap> {
+  if (!cache.has(era.id)) {
+    const request = fetch(era.url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Era basemap request failed: ${response.status} ${response.statusText}`);
+        return response.json() as Promise<EraBasemap>;
+      })
+      .then(collection => ({ ...collection, features: collection.features.map(rewind) }));
+    // Failed requests are not cached so the next visit tries again
+    request.catch(() => cache.delete(era.id));
+    cache.set(era.id, request);
+  }
+  return cache.get(era.id)!;
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB.
+ * All WanderWord object stores live in one database; add new stores to
+ * STORES and bump DB_VERSION so existing installs get upgraded.
+ */
+
+const DB_NAME = 'wanderword';
+const DB_VERSION = 2;
+
+const STORES = {
+  journeys: { keyPath: 'key' },
+  history: { keyPath: 'id' },
+  collections: { keyPath: 'id' },
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, options] of Object.entries(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, options);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
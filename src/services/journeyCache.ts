@@ -0,0 +1,59 @@
+import type { WordJourney, CachedJourney, JourneyCache } from '@/types';
+import { idbGet, idbPut, idbDelete, isIndexedDbAvailable } from './idb';
+
+/**
+ * Journey cache shared by the web app (IndexedDB), the API server and the CLI
+ * (file-backed, see server/journeyCache.ts). All three build keys the same way
+ * so an entry written by one is found by the others.
+ */
+
+export const DEFAULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface JourneyCacheKeyParts {
+  word: string;
+  provider: string;
+  model?: string;
+  language?: string;
+  /** Server the provider is called on; the same model name on two servers is cached apart */
+  baseUrl?: string;
+}
+
+export const normalizeCacheWord = (word: string) =>
+  word.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const journeyCacheKey = ({ word, provider, model, language, baseUrl }: JourneyCacheKeyParts) =>
+  [
+    normalizeCacheWord(word),
+    provider,
+    model || 'default',
+    (language || 'English').trim().toLowerCase(),
+    ...(baseUrl?.trim() ? [baseUrl.trim().replace(/\/+$/, '')] : [])
+  ].join('|');
+
+export const createCacheEntry = (key: string, journey: WordJourney, ttlMs = DEFAULT_CACHE_TTL_MS): CachedJourney => {
+  const now = Date.now();
+  return { key, journey, createdAt: now, expiresAt: now + ttlMs };
+};
+
+export const isCacheEntryFresh = (entry: CachedJourney, now = Date.now()) => entry.expiresAt > now;
+
+// ============== Browser (IndexedDB) ==============
+export const indexedDbJourneyCache: JourneyCache = {
+  async get(key) {
+    const entry = await idbGet<CachedJourney>('journeys', key);
+    if (!entry) return null;
+    if (!isCacheEntryFresh(entry)) {
+      await idbDelete('journeys', key);
+      return null;
+    }
+    return entry;
+  },
+
+  async set(key, journey, ttlMs) {
+    await idbPut('journeys', createCacheEntry(key, journey, ttlMs));
+  },
+};
+
+/** Default cache for the current runtime; null where IndexedDB is unavailable (Node). */
+export const getDefaultJourneyCache = (): JourneyCache | null =>
+  isIndexedDbAvailable() ? indexedDbJourneyCache : null;
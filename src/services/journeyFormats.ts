@@ -0,0 +1,276 @@
+import type { Feature, FeatureCollection, LineString, Point } from 'geojson';
+import type { JourneyStep, Origin, WordJourney } from '@/types';
+import { ORIGIN_ORDER, getParentOrder } from '@/utils/journeyTree';
+import { JourneyValidationError, validateWordJourney } from './journeyValidator';
+
+/**
+ * Journeys as files: plain JSON, a GeoJSON FeatureCollection (origin and
+ * steps as Points, legs as LineStrings tagged with routeType) or KML for
+ * Google Earth. Stage fields are kept flat on each feature so GIS tools can
+ * show them, and everything needed to rebuild the journey is kept, so every
+ * format imports back into the map.
+ */
+
+export type JourneyFormat = 'json' | 'geojson' | 'kml';
+
+export const JOURNEY_FORMATS: JourneyFormat[] = ['json', 'geojson', 'kml'];
+
+export const JOURNEY_FILE_TYPES: Record<JourneyFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' }
+};
+
+/** Journey-wide fields, stored as a foreign member of the FeatureCollection */
+type JourneyMetadata = Pick<WordJourney, 'word' | 'currentMeaning' | 'narrative' | 'routeSummary' | 'funFact'>;
+
+type StageProperties = {
+  kind: 'origin' | 'step';
+  order: number;
+  parent?: number;
+  word: string;
+  language: string;
+  meaning?: string;
+  pronunciation?: string;
+  place: string;
+  countryCode: string;
+  century: string;
+  startYear?: number;
+  endYear?: number;
+  approximate?: boolean;
+  routeType?: 'land' | 'sea';
+  notes?: string;
+};
+
+type LegProperties = {
+  kind: 'leg';
+  from: number;
+  to: number;
+  routeType: 'land' | 'sea';
+};
+
+export type JourneyFeatureCollection = FeatureCollection<Point | LineString, StageProperties | LegProperties> & {
+  journey: JourneyMetadata;
+};
+
+/** Used for text fields a foreign file doesn't have */
+const IMPORTED_TEXT = 'Imported journey';
+const UNKNOWN_MEANING = 'unknown';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stageProperties = (stage: Origin | JourneyStep, kind: StageProperties['kind']): StageProperties => {
+  const properties: StageProperties = {
+    kind,
+    order: kind === 'origin' ? ORIGIN_ORDER : (stage as JourneyStep).order,
+    word: stage.word,
+    language: stage.language,
+    place: stage.location.name,
+    countryCode: stage.location.countryCode,
+    century: stage.century
+  };
+  if (stage.dates) Object.assign(properties, stage.dates);
+  if ('meaning' in stage) properties.meaning = stage.meaning;
+  if ('routeType' in stage) {
+    if (stage.parent !== undefined) properties.parent = stage.parent;
+    if (stage.pronunciation) properties.pronunciation = stage.pronunciation;
+    properties.routeType = stage.routeType;
+    properties.notes = stage.notes;
+  }
+  return properties;
+};
+
+export function journeyToGeoJSON(journey: WordJourney): JourneyFeatureCollection {
+  const coordinatesByOrder = new Map([
+    [ORIGIN_ORDER, journey.origin.location.coordinates],
+    ...journey.journey.map(step => [step.order, step.location.coordinates] as const)
+  ]);
+
+  const points: Feature<Point, StageProperties>[] = [
+    { type: 'Feature', geometry: { type: 'Point', coordinates: journey.origin.location.coordinates }, properties: stageProperties(journey.origin, 'origin') },
+    ...journey.journey.map((step): Feature<Point, StageProperties> => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: step.location.coordinates },
+      properties: stageProperties(step, 'step')
+    }))
+  ];
+
+  const legs = journey.journey.map((step): Feature<LineString, LegProperties> => {
+    const from = getParentOrder(step);
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [coordinatesByOrder.get(from) ?? journey.origin.location.coordinates, step.location.coordinates]
+      },
+      properties: { kind: 'leg', from, to: step.order, routeType: step.routeType }
+    };
+  });
+
+  const { word, currentMeaning, narrative, routeSummary, funFact } = journey;
+  return {
+    type: 'FeatureCollection',
+    journey: { word, currentMeaning, narrative, routeSummary, ...(funFact ? { funFact } : {}) },
+    features: [...points, ...legs]
+  };
+}
+
+/** Stage in the shape the validator reads, from a Point's properties. */
+const toStage = (properties: Record<string, unknown>, coordinates: unknown) => ({
+  ...properties,
+  location: { name: properties.place ?? properties.name ?? '', countryCode: properties.countryCode, coordinates },
+  dates: properties.startYear !== undefined
+    ? { startYear: properties.startYear, endYear: properties.endYear ?? properties.startYear, approximate: properties.approximate ?? false }
+    : undefined
+});
+
+/**
+ * Rebuilds a journey from a FeatureCollection of stage Points (legs are
+ * derived from the stages). Files from other tools work too: the Point with
+ * order 0 or kind "origin" (else the first) is the origin, the rest are steps
+ * in file order; the result is repaired and checked like a model response.
+ */
+export function geoJSONToJourney(input: unknown): WordJourney {
+  if (!isRecord(input) || input.type !== 'FeatureCollection' || !Array.isArray(input.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  const stages = input.features
+    .filter((feature): feature is Feature<Point> => isRecord(feature) && isRecord(feature.geometry) && feature.geometry.type === 'Point')
+    .map((feature, idx) => ({ properties: { order: idx, ...feature.properties } as Record<string, unknown>, coordinates: feature.geometry.coordinates }));
+  if (stages.length === 0) throw new Error('The file has no Point features to use as stages');
+
+  const originIndex = Math.max(0, stages.findIndex(({ properties }) => properties.kind === 'origin' || properties.order === ORIGIN_ORDER));
+  const origin = stages[originIndex];
+  const steps = stages.filter((_, idx) => idx !== originIndex);
+  const metadata = isRecord(input.journey)
+    ? Object.fromEntries(Object.entries(input.journey).filter(([, value]) => value !== undefined && value !== ''))
+    : {};
+
+  const { valid, data, errors } = validateWordJourney({
+    word: (steps[steps.length - 1] ?? origin).properties.word,
+    currentMeaning: origin.properties.meaning || UNKNOWN_MEANING,
+    narrative: IMPORTED_TEXT,
+    routeSummary: IMPORTED_TEXT,
+    ...metadata,
+    origin: toStage({ meaning: UNKNOWN_MEANING, ...origin.properties }, origin.coordinates),
+    journey: steps.map(({ properties, coordinates }) => toStage(properties, coordinates))
+  });
+  if (!valid || !data) throw new JourneyValidationError(errors);
+  return data;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+
+const extendedData = (values: Record<string, unknown>) => [
+  '<ExtendedData>',
+  ...Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`),
+  '</ExtendedData>'
+].join('');
+
+const kmlCoordinates = (coordinates: number[][]) => coordinates.map(([lon, lat]) => `${lon},${lat},0`).join(' ');
+
+/** KML document for Google Earth: one placemark per stage and per leg, sea legs solid, land legs translucent. */
+export function journeyToKml(journey: WordJourney): string {
+  const collection = journeyToGeoJSON(journey);
+
+  const placemarks = collection.features.map(({ geometry, properties }) => {
+    if (properties.kind === 'leg') {
+      return [
+        '<Placemark>',
+        `<name>${properties.routeType} route</name>`,
+        `<styleUrl>#${properties.routeType}</styleUrl>`,
+        extendedData(properties),
+        `<LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates((geometry as LineString).coordinates)}</coordinates></LineString>`,
+        '</Placemark>'
+      ].join('');
+    }
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(properties.word)}</name>`,
+      `<description>${escapeXml([`${properties.language}, ${properties.century}`, properties.notes ?? properties.meaning ?? ''].join('\n'))}</description>`,
+      extendedData(properties),
+      `<Point><coordinates>${kmlCoordinates([(geometry as Point).coordinates])}</coordinates></Point>`,
+      '</Placemark>'
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(journey.word)}</name>`,
+    `<description>${escapeXml(journey.narrative)}</description>`,
+    extendedData(collection.journey),
+    '<Style id="sea"><LineStyle><color>ff000000</color><width>3</width></LineStyle></Style>',
+    '<Style id="land"><LineStyle><color>99000000</color><width>2</width></LineStyle></Style>',
+    ...placemarks,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+}
+
+// ExtendedData values are strings; these fields are read back as numbers or booleans
+const NUMERIC_FIELDS = new Set(['order', 'parent', 'startYear', 'endYear', 'from', 'to']);
+
+const readExtendedData = (element: Element): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  const data = element.querySelector(':scope > ExtendedData');
+  data?.querySelectorAll('Data').forEach(item => {
+    const key = item.getAttribute('name');
+    const value = item.querySelector('value')?.textContent ?? '';
+    if (!key) return;
+    values[key] = NUMERIC_FIELDS.has(key) ? Number(value) : key === 'approximate' ? value === 'true' : value;
+  });
+  return values;
+};
+
+/** Reads a KML document back into a journey (browser only: uses DOMParser). */
+export function kmlToJourney(text: string): WordJourney {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('The KML file is not valid XML');
+
+  const documentElement = doc.querySelector('Document') ?? doc.documentElement;
+  const features = Array.from(doc.querySelectorAll('Placemark')).flatMap((placemark): Feature<Point>[] => {
+    const coordinates = placemark.querySelector('Point > coordinates')?.textContent?.trim();
+    if (!coordinates) return [];
+    const [lon, lat] = coordinates.split(',').map(Number);
+    const properties = readExtendedData(placemark);
+    properties.word ??= placemark.querySelector('name')?.textContent ?? '';
+    return [{ type: 'Feature', geometry: { type: 'Point', coordinates: [lon, lat] }, properties }];
+  });
+
+  const metadata = readExtendedData(documentElement);
+  metadata.word ??= documentElement.querySelector(':scope > name')?.textContent ?? undefined;
+  metadata.narrative ??= documentElement.querySelector(':scope > description')?.textContent || undefined;
+  return geoJSONToJourney({ type: 'FeatureCollection', journey: metadata, features });
+}
+
+export function serializeJourney(journey: WordJourney, format: JourneyFormat): string {
+  if (format === 'geojson') return JSON.stringify(journeyToGeoJSON(journey), null, 2);
+  if (format === 'kml') return journeyToKml(journey);
+  return JSON.stringify(journey, null, 2);
+}
+
+/** Parses an exported journey file; the format comes from the content, so extensions don't matter. */
+export function parseJourneyFile(text: string): WordJourney {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) return kmlToJourney(trimmed);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new Error('Expected a JSON, GeoJSON or KML journey file');
+  }
+
+  if (isRecord(parsed) && parsed.type === 'FeatureCollection') return geoJSONToJourney(parsed);
+
+  const { valid, data, errors } = validateWordJourney(parsed);
+  if (!valid || !data) throw new JourneyValidationError(errors);
+  return data;
+}
@@ -0,0 +1,141 @@
+import type { AIProviderConfig, HistoryEntry, JourneyCollection, WordJourney } from '@/types';
+import { idbClear, idbDelete, idbGetAll, idbPut } from './idb';
+import { journeyCacheKey, normalizeCacheWord } from './journeyCache';
+import { JourneyValidationError, validateWordJourney } from './journeyValidator';
+
+/**
+ * The user's library in IndexedDB: a history of past lookups, each with its
+ * full journey so it can be shown again without a provider, and named
+ * collections of journeys that can be exported and imported as JSON.
+ */
+
+/** Oldest lookups beyond this are dropped */
+export const MAX_HISTORY = 500;
+
+const COLLECTIONS_FILE_FORMAT = 'wanderword-collections';
+
+const createId = () => crypto.randomUUID();
+
+// ============== History ==============
+
+/** Lookups, newest first. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await idbGetAll<HistoryEntry>('history');
+  return entries.sort((a, b) => b.viewedAt - a.viewedAt);
+}
+
+/** Records a lookup; repeating one moves it to the top instead of adding a duplicate. */
+export async function recordLookup(query: string, config: AIProviderConfig, journey: WordJourney): Promise<HistoryEntry> {
+  const { provider, model, responseLanguage, baseUrl } = config;
+  const entry: HistoryEntry = {
+    id: journeyCacheKey({ word: query, provider, model, language: responseLanguage, baseUrl }),
+    query,
+    provider,
+    journey,
+    viewedAt: Date.now(),
+    ...(model ? { model } : {}),
+    ...(responseLanguage ? { responseLanguage } : {})
+  };
+  await idbPut('history', entry);
+
+  const entries = await listHistory();
+  await Promise.all(entries.slice(MAX_HISTORY).map(old => idbDelete('history', old.id)));
+  return entry;
+}
+
+export const deleteHistoryEntry = (id: string) => idbDelete('history', id);
+
+export const clearHistory = () => idbClear('history');
+
+// ============== Collections ==============
+
+/** Collections by name. */
+export async function listCollections(): Promise<JourneyCollection[]> {
+  const collections = await idbGetAll<JourneyCollection>('collections');
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const saveCollection = async (collection: JourneyCollection): Promise<JourneyCollection> => {
+  const saved = { ...collection, updatedAt: Date.now() };
+  await idbPut('collections', saved);
+  return saved;
+};
+
+const cleanName = (name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Collection name is required');
+  return trimmed;
+};
+
+export async function createCollection(name: string, journeys: WordJourney[] = []): Promise<JourneyCollection> {
+  const now = Date.now();
+  return saveCollection({ id: createId(), name: cleanName(name), journeys, createdAt: now, updatedAt: now });
+}
+
+export const renameCollection = (collection: JourneyCollection, name: string) =>
+  saveCollection({ ...collection, name: cleanName(name) });
+
+/** Adds a journey, replacing one already there for the same word. */
+export const addToCollection = (collection: JourneyCollection, journey: WordJourney) => {
+  const word = normalizeCacheWord(journey.word);
+  return saveCollection({
+    ...collection,
+    journeys: [...collection.journeys.filter(existing => normalizeCacheWord(existing.word) !== word), journey]
+  });
+};
+
+export const removeFromCollection = (collection: JourneyCollection, index: number) =>
+  saveCollection({ ...collection, journeys: collection.journeys.filter((_, idx) => idx !== index) });
+
+export const deleteCollection = (id: string) => idbDelete('collections', id);
+
+// ============== Files ==============
+
+/** JSON file of collections; ids and timestamps are local, so only names and journeys are kept. */
+export const serializeCollections = (collections: JourneyCollection[]) =>
+  JSON.stringify({
+    format: COLLECTIONS_FILE_FORMAT,
+    version: 1,
+    collections: collections.map(({ name, journeys }) => ({ name, journeys }))
+  }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads collections from a file made by serializeCollections (a single
+ * `{ name, journeys }` object works too). Every journey is validated like a
+ * model response, since files can be edited by hand.
+ */
+export function parseCollectionsFile(text: string): { name: string; journeys: WordJourney[] }[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Expected a JSON collections file');
+  }
+
+  const items = isRecord(parsed) && Array.isArray(parsed.collections) ? parsed.collections : [parsed];
+  return items.map((item, idx) => {
+    if (!isRecord(item) || !Array.isArray(item.journeys)) {
+      throw new Error(`Collection ${idx + 1} has no journeys list`);
+    }
+    const name = typeof item.name === 'string' && item.name.trim() ? item.name.trim() : `Imported ${idx + 1}`;
+    const journeys = item.journeys.map(journey => {
+      const { valid, data, errors } = validateWordJourney(journey);
+      if (!valid || !data) throw new JourneyValidationError(errors);
+      return data;
+    });
+    return { name, journeys };
+  });
+}
+
+/** Imports a collections file; each collection is added as a new one, even if the name exists. */
+export async function importCollections(text: string): Promise<JourneyCollection[]> {
+  const parsed = parseCollectionsFile(text);
+  const created: JourneyCollection[] = [];
+  for (const { name, journeys } of parsed) {
+    created.push(await createCollection(name, journeys));
+  }
+  return created;
+}
@@ -0,0 +1,423 @@
+import type {
+  WordJourney,
+  JourneyStep,
+  CognateFanout,
+  Descendant,
+  Origin,
+  Coordinates,
+  DateRange,
+  ValidationIssue,
+  ValidationResult
+} from '@/types';
+import { parseDateRange, formatDateRange } from '@/utils/century';
+
+/**
+ * Runtime validation for AI responses.
+ *
+ * Models regularly return almost-correct JSON: [lat, lon] instead of [lon, lat],
+ * steps without `order`, or route types like "maritime". Everything that can be
+ * fixed without guessing at content is repaired in place and reported; the rest
+ * is returned as errors keyed by field path.
+ */
+
+export class JourneyValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const summary = issues.slice(0, 3).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Invalid journey data - ${summary}${more}`);
+    this.name = 'JourneyValidationError';
+    this.issues = issues;
+  }
+}
+
+const SEA_ROUTE_HINTS = ['sea', 'maritime', 'ocean', 'naval', 'ship', 'boat', 'river', 'water', 'coastal'];
+
+type Issues = { errors: ValidationIssue[]; repairs: ValidationIssue[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    if (Number.isFinite(n)) return n;
+  }
+  return null;
+};
+
+const readString = (
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  required = true
+): string | undefined => {
+  const value = obj[key];
+  if (typeof value === 'string') {
+    if (value.trim() === '' && required) {
+      issues.errors.push({ path, message: 'must not be empty' });
+    }
+    return value.trim();
+  }
+  if (typeof value === 'number') {
+    issues.repairs.push({ path, message: 'converted number to string' });
+    return String(value);
+  }
+  if (value === undefined || value === null) {
+    if (required) issues.errors.push({ path, message: 'is required' });
+    return undefined;
+  }
+  if (required) {
+    issues.errors.push({ path, message: `expected string, got ${Array.isArray(value) ? 'array' : typeof value}` });
+  } else {
+    issues.repairs.push({ path, message: 'dropped non-string value' });
+  }
+  return undefined;
+};
+
+const wrapLongitude = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/** Normalizes a coordinate pair to [longitude, latitude], repairing common mistakes. */
+const validateCoordinatePair = (value: unknown, path: string, issues: Issues): [number, number] | null => {
+  let pair: [number, number] | null = null;
+
+  if (Array.isArray(value) && value.length >= 2) {
+    const a = toNumber(value[0]);
+    const b = toNumber(value[1]);
+    if (a !== null && b !== null) pair = [a, b];
+  } else if (isRecord(value)) {
+    // Some models return { lat, lon } / { latitude, longitude } objects
+    const lon = toNumber(value.lon ?? value.lng ?? value.longitude);
+    const lat = toNumber(value.lat ?? value.latitude);
+    if (lon !== null && lat !== null) {
+      pair = [lon, lat];
+      issues.repairs.push({ path, message: 'converted coordinate object to [longitude, latitude]' });
+    }
+  }
+
+  if (!pair) {
+    issues.errors.push({ path, message: 'expected [longitude, latitude] pair of numbers' });
+    return null;
+  }
+
+  let [lon, lat] = pair;
+
+  // Latitude can never exceed 90 degrees; if the longitude slot fits it, the pair is swapped
+  if (Math.abs(lat) > 90 && Math.abs(lon) <= 90) {
+    [lon, lat] = [lat, lon];
+    issues.repairs.push({ path, message: 'swapped [latitude, longitude] to [longitude, latitude]' });
+  }
+
+  if (Math.abs(lat) > 90) {
+    lat = Math.max(-90, Math.min(90, lat));
+    issues.repairs.push({ path, message: 'clamped latitude to [-90, 90]' });
+  }
+
+  if (Math.abs(lon) > 180) {
+    lon = wrapLongitude(lon);
+    issues.repairs.push({ path, message: 'wrapped longitude to [-180, 180]' });
+  }
+
+  return [lon, lat];
+};
+
+const validateLocation = (value: unknown, path: string, issues: Issues): Coordinates | null => {
+  if (!isRecord(value)) {
+    issues.errors.push({ path, message: 'is required' });
+    return null;
+  }
+
+  const name = readString(value, 'name', `${path}.name`, issues);
+
+  let countryCode = readString(value, 'countryCode', `${path}.countryCode`, issues, false) ?? '';
+  if (countryCode !== countryCode.toUpperCase()) {
+    countryCode = countryCode.toUpperCase();
+    issues.repairs.push({ path: `${path}.countryCode`, message: 'converted to upper case' });
+  }
+  if (countryCode && !/^[A-Z]{2}$/.test(countryCode)) {
+    issues.repairs.push({ path: `${path}.countryCode`, message: `dropped invalid ISO code "${countryCode}"` });
+    countryCode = '';
+  }
+
+  const coordinates = validateCoordinatePair(value.coordinates, `${path}.coordinates`, issues);
+
+  if (name === undefined || !coordinates) return null;
+  return { name, countryCode, coordinates };
+};
+
+/**
+ * Reads the structured `dates` of a stage, falling back to parsing the display
+ * string. Returns the dates plus the display string, which is derived from the
+ * dates when the model left it out.
+ */
+const validateDates = (
+  obj: Record<string, unknown>,
+  path: string,
+  issues: Issues
+): { century?: string; dates?: DateRange } => {
+  const raw = isRecord(obj.dates) ? obj.dates : obj;
+  let startYear = toNumber(raw.startYear);
+  let endYear = toNumber(raw.endYear);
+  let dates: DateRange | undefined;
+
+  if (startYear !== null || endYear !== null) {
+    startYear ??= endYear!;
+    endYear ??= startYear;
+    if (startYear > endYear) {
+      [startYear, endYear] = [endYear, startYear];
+      issues.repairs.push({ path: `${path}.dates`, message: 'swapped startYear and endYear' });
+    }
+    dates = { startYear: Math.round(startYear), endYear: Math.round(endYear), approximate: raw.approximate === true };
+  } else if (obj.dates !== undefined && obj.dates !== null) {
+    issues.repairs.push({ path: `${path}.dates`, message: 'dropped dates without numeric years' });
+  }
+
+  const hasCentury = typeof obj.century === 'string' && obj.century.trim() !== '';
+  if (!hasCentury && dates) {
+    issues.repairs.push({ path: `${path}.century`, message: 'derived from dates' });
+    return { century: formatDateRange(dates), dates };
+  }
+
+  const century = readString(obj, 'century', `${path}.century`, issues);
+  if (!dates && century) {
+    dates = parseDateRange(century) ?? undefined;
+    if (dates) issues.repairs.push({ path: `${path}.dates`, message: `parsed from "${century}"` });
+  }
+  return { century, dates };
+};
+
+const normalizeRouteType = (value: unknown, path: string, issues: Issues): 'land' | 'sea' => {
+  const raw = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (raw === 'land' || raw === 'sea') {
+    if (value !== raw) issues.repairs.push({ path, message: `normalized "${value}" to "${raw}"` });
+    return raw;
+  }
+
+  const mapped = SEA_ROUTE_HINTS.some(hint => raw.includes(hint)) ? 'sea' : 'land';
+  issues.repairs.push({
+    path,
+    message: raw ? `mapped unknown route type "${value}" to "${mapped}"` : `missing route type, defaulted to "${mapped}"`
+  });
+  return mapped;
+};
+
+const validateOrigin = (value: unknown, issues: Issues): Origin | null => {
+  if (!isRecord(value)) {
+    issues.errors.push({ path: 'origin', message: 'is required' });
+    return null;
+  }
+
+  const word = readString(value, 'word', 'origin.word', issues);
+  const language = readString(value, 'language', 'origin.language', issues);
+  const meaning = readString(value, 'meaning', 'origin.meaning', issues);
+  const location = validateLocation(value.location, 'origin.location', issues);
+  const { century, dates } = validateDates(value, 'origin', issues);
+
+  if (word === undefined || language === undefined || meaning === undefined || !location || century === undefined) {
+    return null;
+  }
+  const origin: Origin = { word, language, meaning, location, century };
+  if (dates) origin.dates = dates;
+  return origin;
+};
+
+const validateStep = (value: unknown, index: number, issues: Issues): JourneyStep | null => {
+  const path = `journey[${index}]`;
+  if (!isRecord(value)) {
+    issues.errors.push({ path, message: 'expected an object' });
+    return null;
+  }
+
+  let order = toNumber(value.order);
+  if (order === null) {
+    order = index + 1;
+    issues.repairs.push({ path: `${path}.order`, message: `missing order, set to ${order}` });
+  }
+
+  let parent: number | null = null;
+  if (value.parent !== undefined && value.parent !== null) {
+    parent = toNumber(value.parent);
+    if (parent === null || !Number.isInteger(parent) || parent < 0) {
+      issues.repairs.push({ path: `${path}.parent`, message: `dropped invalid parent ${JSON.stringify(value.parent)}` });
+      parent = null;
+    }
+  }
+
+  const word = readString(value, 'word', `${path}.word`, issues);
+  const language = readString(value, 'language', `${path}.language`, issues);
+  const pronunciation = readString(value, 'pronunciation', `${path}.pronunciation`, issues, false);
+  const location = validateLocation(value.location, `${path}.location`, issues);
+  const { century, dates } = validateDates(value, path, issues);
+  const routeType = normalizeRouteType(value.routeType, `${path}.routeType`, issues);
+  const notes = readString(value, 'notes', `${path}.notes`, issues, false) ?? '';
+
+  if (word === undefined || language === undefined || !location || century === undefined) {
+    return null;
+  }
+
+  const step: JourneyStep = { order, word, language, location, century, routeType, notes };
+  if (dates) step.dates = dates;
+  if (parent !== null) step.parent = parent;
+  if (pronunciation) step.pronunciation = pronunciation;
+  return step;
+};
+
+/**
+ * Checks a parsed AI response against the WordJourney shape and repairs what it safely can.
+ * `data` is only set when no unrepairable errors remain.
+ */
+export function validateWordJourney(input: unknown): ValidationResult {
+  const issues: Issues = { errors: [], repairs: [] };
+
+  if (!isRecord(input)) {
+    return {
+      valid: false,
+      data: null,
+      errors: [{ path: '', message: 'expected a JSON object' }],
+      repairs: []
+    };
+  }
+
+  const word = readString(input, 'word', 'word', issues);
+  const currentMeaning = readString(input, 'currentMeaning', 'currentMeaning', issues);
+  const origin = validateOrigin(input.origin, issues);
+  const narrative = readString(input, 'narrative', 'narrative', issues);
+  const routeSummary = readString(input, 'routeSummary', 'routeSummary', issues);
+  const funFact = readString(input, 'funFact', 'funFact', issues, false);
+
+  let journey: JourneyStep[] = [];
+  if (Array.isArray(input.journey)) {
+    journey = input.journey
+      .map((step, idx) => validateStep(step, idx, issues))
+      .filter((step): step is JourneyStep => step !== null);
+
+    // Keep chronological order and a gapless 1..n sequence
+    const sorted = [...journey].sort((a, b) => a.order - b.order);
+    const needsRenumber = sorted.some((step, idx) => step.order !== idx + 1);
+    if (needsRenumber || sorted.some((step, idx) => step !== journey[idx])) {
+      // Parent references point at the old numbers, so carry them over
+      const renumbered = new Map<number, number>([[0, 0]]);
+      sorted.forEach((step, idx) => {
+        if (!renumbered.has(step.order)) renumbered.set(step.order, idx + 1);
+      });
+      journey = sorted.map((step, idx) => {
+        const next: JourneyStep = { ...step, order: idx + 1 };
+        if (step.parent !== undefined) next.parent = renumbered.get(step.parent) ?? -1;
+        return next;
+      });
+      issues.repairs.push({ path: 'journey', message: 'renumbered steps to a 1..n sequence' });
+    }
+
+    // A branch must grow from the origin or an earlier stage
+    journey.forEach((step, idx) => {
+      if (step.parent !== undefined && (step.parent < 0 || step.parent >= step.order)) {
+        issues.repairs.push({
+          path: `journey[${idx}].parent`,
+          message: 'parent must reference the origin (0) or an earlier stage, continuing from the previous stage'
+        });
+        delete step.parent;
+      }
+    });
+  } else {
+    issues.errors.push({
+      path: 'journey',
+      message: input.journey === undefined ? 'is required' : 'expected an array of steps'
+    });
+  }
+
+  if (
+    issues.errors.length > 0 ||
+    word === undefined || currentMeaning === undefined || !origin ||
+    narrative === undefined || routeSummary === undefined
+  ) {
+    return { valid: false, data: null, errors: issues.errors, repairs: issues.repairs };
+  }
+
+  const data: WordJourney = { word, currentMeaning, origin, journey, narrative, routeSummary };
+  if (funFact) data.funFact = funFact;
+
+  return { valid: true, data, errors: [], repairs: issues.repairs };
+}
+
+const validateDescendant = (value: unknown, index: number, issues: Issues): Descendant | null => {
+  const path = `descendants[${index}]`;
+  if (!isRecord(value)) {
+    issues.errors.push({ path, message: 'expected an object' });
+    return null;
+  }
+
+  const word = readString(value, 'word', `${path}.word`, issues);
+  const language = readString(value, 'language', `${path}.language`, issues);
+  const meaning = readString(value, 'meaning', `${path}.meaning`, issues, false) ?? '';
+  const pronunciation = readString(value, 'pronunciation', `${path}.pronunciation`, issues, false);
+  const location = validateLocation(value.location, `${path}.location`, issues);
+  const { century, dates } = validateDates(value, path, issues);
+  const routeType = normalizeRouteType(value.routeType, `${path}.routeType`, issues);
+  const notes = readString(value, 'notes', `${path}.notes`, issues, false) ?? '';
+
+  if (word === undefined || language === undefined || !location || century === undefined) {
+    return null;
+  }
+
+  const descendant: Descendant = { word, language, meaning, location, century, routeType, notes };
+  if (dates) descendant.dates = dates;
+  if (pronunciation) descendant.pronunciation = pronunciation;
+  return descendant;
+};
+
+/** Same contract as validateWordJourney, for cognate fan-out responses. */
+export function validateCognateFanout(input: unknown): ValidationResult<CognateFanout> {
+  const issues: Issues = { errors: [], repairs: [] };
+
+  if (!isRecord(input)) {
+    return {
+      valid: false,
+      data: null,
+      errors: [{ path: '', message: 'expected a JSON object' }],
+      repairs: []
+    };
+  }
+
+  const origin = validateOrigin(input.origin, issues);
+  const root = readString(input, 'root', 'root', issues, false) ?? origin?.word;
+  const narrative = readString(input, 'narrative', 'narrative', issues);
+  const funFact = readString(input, 'funFact', 'funFact', issues, false);
+
+  let descendants: Descendant[] = [];
+  if (Array.isArray(input.descendants) && input.descendants.length > 0) {
+    descendants = input.descendants
+      .map((descendant, idx) => validateDescendant(descendant, idx, issues))
+      .filter((descendant): descendant is Descendant => descendant !== null);
+  } else {
+    issues.errors.push({
+      path: 'descendants',
+      message: input.descendants === undefined ? 'is required' : 'expected a non-empty array of descendants'
+    });
+  }
+
+  if (issues.errors.length > 0 || root === undefined || !origin || narrative === undefined) {
+    return { valid: false, data: null, errors: issues.errors, repairs: issues.repairs };
+  }
+
+  const data: CognateFanout = { root, origin, descendants, narrative };
+  if (funFact) data.funFact = funFact;
+
+  return { valid: true, data, errors: [], repairs: issues.repairs };
+}
+
+/** Validates a streamed origin on its own; returns null until it is complete and valid. */
+export function validateOriginPartial(input: unknown): Origin | null {
+  const issues: Issues = { errors: [], repairs: [] };
+  const origin = validateOrigin(input, issues);
+  return issues.errors.length === 0 ? origin : null;
+}
+
+/** Validates a single streamed journey step; `index` fills in a missing order. */
+export function validateStepPartial(input: unknown, index: number): JourneyStep | null {
+  const issues: Issues = { errors: [], repairs: [] };
+  const step = validateStep(input, index, issues);
+  return issues.errors.length === 0 ? step : null;
+}
@@ -0,0 +1,295 @@
+import type { CognateFanout, WordJourney } from '@/types';
+import { encodeGif, encodeGifFrame } from '@/utils/gif';
+
+/**
+ * Exports of the world map for slides and posts: the live SVG is cloned with
+ * its computed styles inlined (so the HTML labels in foreignObject keep their
+ * look outside the app), a caption block is added below it, and the result is
+ * saved as SVG, rasterised to PNG, or captured frame by frame into a GIF or
+ * WebM while playback runs.
+ */
+
+export type ImageFormat = 'svg' | 'png';
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface ExportCaption {
+  title: string;
+  lines: string[];
+}
+
+export interface MapRecording {
+  /** Ends the capture and returns the encoded animation */
+  stop(): Promise<Blob>;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CAPTION_FONT = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+const CAPTION_PADDING = 24;
+const TITLE_SIZE = 28;
+const LINE_SIZE = 13;
+const LINE_HEIGHT = 1.5;
+/** Approximate advance of a monospace character, as a share of the font size */
+const CHAR_WIDTH = 0.6;
+
+/** GIF frames are scaled down to this width to keep files shareable */
+const GIF_MAX_WIDTH = 800;
+const GIF_FRAME_MS = 100;
+const WEBM_FPS = 24;
+
+// Tailwind classes don't exist outside the app, so these are copied from the computed style
+const HTML_STYLES = [
+  'display', 'align-items', 'justify-content', 'height', 'padding-left', 'padding-right',
+  'font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing', 'text-transform',
+  'white-space', 'color', 'background-color'
+];
+const SVG_STYLES = ['font-family', 'text-transform'];
+
+const describeOrigin = ({ origin }: { origin: WordJourney['origin'] }) =>
+  `origin: ${origin.word} (${origin.language}, ${origin.century}) - ${origin.location.name}`;
+
+/** Caption for whatever the map shows: one journey, a cognate fan-out, or several journeys compared. */
+export function getExportCaption(data: WordJourney | CognateFanout | WordJourney[]): ExportCaption {
+  if (Array.isArray(data)) {
+    return {
+      title: data.map(journey => journey.word).join(' / '),
+      lines: data.map(journey => `${journey.word} ${describeOrigin(journey)}`)
+    };
+  }
+  if ('root' in data) {
+    return {
+      title: data.root,
+      lines: [describeOrigin(data), `descendants: ${data.descendants.map(d => `${d.word} (${d.language})`).join(', ')}`]
+    };
+  }
+  return {
+    title: data.word,
+    lines: [describeOrigin(data), ...(data.routeSummary ? [`route: ${data.routeSummary}`] : [])]
+  };
+}
+
+/** Breaks text into lines that fit a width, assuming monospace characters. */
+const wrapText = (text: string, width: number, fontSize: number): string[] => {
+  const maxChars = Math.max(10, Math.floor(width / (fontSize * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const inlineStyles = (source: Element, target: Element) => {
+  const isHtml = source instanceof HTMLElement;
+  if (isHtml || source.hasAttribute('class')) {
+    const computed = getComputedStyle(source);
+    // Keep inline styles already there, e.g. framer-motion transforms
+    const styles = (isHtml ? HTML_STYLES : SVG_STYLES).map(prop => `${prop}:${computed.getPropertyValue(prop)}`);
+    target.setAttribute('style', [target.getAttribute('style'), ...styles].filter(Boolean).join(';'));
+    target.removeAttribute('class');
+  }
+  Array.from(source.children).forEach((child, idx) => inlineStyles(child, target.children[idx]));
+};
+
+const createCaption = (doc: Document, caption: ExportCaption, width: number, top: number) => {
+  const group = doc.createElementNS(SVG_NS, 'g');
+  const textWidth = width - CAPTION_PADDING * 2;
+  const lines = caption.lines.flatMap(line => wrapText(line, textWidth, LINE_SIZE));
+  const height = CAPTION_PADDING * 2 + TITLE_SIZE * LINE_HEIGHT + lines.length * LINE_SIZE * LINE_HEIGHT;
+
+  const background = doc.createElementNS(SVG_NS, 'rect');
+  Object.entries({ x: 0, y: top, width, height, fill: '#000' }).forEach(([k, v]) => background.setAttribute(k, String(v)));
+  group.appendChild(background);
+
+  const addText = (content: string, y: number, size: number, weight: number) => {
+    const text = doc.createElementNS(SVG_NS, 'text');
+    Object.entries({
+      x: CAPTION_PADDING,
+      y,
+      fill: '#fff',
+      'font-family': CAPTION_FONT,
+      'font-size': size,
+      'font-weight': weight
+    }).forEach(([k, v]) => text.setAttribute(k, String(v)));
+    text.textContent = content;
+    group.appendChild(text);
+  };
+
+  let y = top + CAPTION_PADDING + TITLE_SIZE;
+  addText(caption.title.toUpperCase(), y, TITLE_SIZE, 900);
+  y += TITLE_SIZE * (LINE_HEIGHT - 1);
+  for (const line of lines) {
+    y += LINE_SIZE * LINE_HEIGHT;
+    addText(line, y, LINE_SIZE, 700);
+  }
+
+  return { group, height };
+};
+
+/** Standalone SVG markup of the map with the caption block below it. */
+export function serializeMap(svg: SVGSVGElement, caption: ExportCaption): { markup: string; width: number; height: number } {
+  const width = svg.width.baseVal.value;
+  const mapHeight = svg.height.baseVal.value;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+
+  const background = svg.ownerDocument.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(mapHeight));
+  background.setAttribute('fill', getComputedStyle(svg.parentElement ?? svg).backgroundColor);
+  clone.insertBefore(background, clone.firstChild);
+
+  const { group, height: captionHeight } = createCaption(svg.ownerDocument, caption, width, mapHeight);
+  clone.appendChild(group);
+
+  const height = mapHeight + captionHeight;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+const loadImage = (markup: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not render the map as an image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+/** Draws the current state of the map (with caption) onto a canvas at the given scale. */
+async function drawMap(svg: SVGSVGElement, caption: ExportCaption, canvas: HTMLCanvasElement, scale: number) {
+  const { markup, width, height } = serializeMap(svg, caption);
+  const image = await loadImage(markup);
+  const targetWidth = Math.round(width * scale);
+  const targetHeight = Math.round(height * scale);
+  if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+    canvas.width = targetWidth;
+    canvas.height = targetHeight;
+  }
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is not available');
+  context.drawImage(image, 0, 0, targetWidth, targetHeight);
+  return context;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    try {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+    } catch {
+      // Some browsers taint canvases that drew SVG with foreignObject
+      reject(new Error('This browser blocks PNG export of the map labels; export SVG instead'));
+    }
+  });
+
+/** Snapshot of the map as SVG, or as PNG at `scale` times the screen size. */
+export async function exportMapImage(
+  svg: SVGSVGElement,
+  caption: ExportCaption,
+  format: ImageFormat,
+  scale = 1
+): Promise<Blob> {
+  if (format === 'svg') {
+    return new Blob([serializeMap(svg, caption).markup], { type: 'image/svg+xml' });
+  }
+  const canvas = document.createElement('canvas');
+  await drawMap(svg, caption, canvas, scale);
+  return canvasToBlob(canvas);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const pickWebmType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Starts capturing the map as it changes (e.g. while playback runs).
+ * Frames are taken as fast as the map can be rasterised, up to the format's
+ * frame rate, and keep their real timing.
+ */
+export function startMapRecording(svg: SVGSVGElement, caption: ExportCaption, format: AnimationFormat): MapRecording {
+  const canvas = document.createElement('canvas');
+  const scale = format === 'gif' ? Math.min(1, GIF_MAX_WIDTH / svg.width.baseVal.value) : 1;
+  const frameMs = format === 'gif' ? GIF_FRAME_MS : 1000 / WEBM_FPS;
+  let stopped = false;
+
+  let recorder: MediaRecorder | null = null;
+  const chunks: Blob[] = [];
+  if (format === 'webm') {
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : pickWebmType();
+    if (!mimeType) throw new Error('This browser cannot record WebM; export a GIF instead');
+    recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), { mimeType });
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+  }
+
+  // GIF frames are encoded once the next one is taken, when their display time is known
+  const gifFrames: Uint8Array[] = [];
+  let pending: { pixels: Uint8ClampedArray; takenAt: number } | null = null;
+  const flushGifFrame = (now: number) => {
+    if (!pending) return;
+    gifFrames.push(encodeGifFrame(pending.pixels, canvas.width, canvas.height, now - pending.takenAt));
+    pending = null;
+  };
+
+  const capture = (async () => {
+    while (!stopped) {
+      const startedAt = performance.now();
+      const context = await drawMap(svg, caption, canvas, scale);
+      if (format === 'gif') {
+        const takenAt = performance.now();
+        flushGifFrame(takenAt);
+        pending = { pixels: context.getImageData(0, 0, canvas.width, canvas.height).data, takenAt };
+      } else if (recorder?.state === 'inactive') {
+        recorder.start();
+      }
+      await sleep(Math.max(0, frameMs - (performance.now() - startedAt)));
+    }
+  })();
+  // A failed capture is reported by stop()
+  capture.catch(() => {});
+
+  return {
+    async stop() {
+      stopped = true;
+      await capture;
+
+      if (recorder) {
+        const webm = recorder;
+        if (webm.state === 'inactive') throw new Error('No frames were recorded');
+        const done = new Promise(resolve => webm.addEventListener('stop', resolve, { once: true }));
+        webm.stop();
+        await done;
+        return new Blob(chunks, { type: webm.mimeType });
+      }
+
+      flushGifFrame(performance.now());
+      if (gifFrames.length === 0) throw new Error('No frames were recorded');
+      return new Blob([encodeGif(canvas.width, canvas.height, gifFrames)], { type: 'image/gif' });
+    }
+  };
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** File name for an export, e.g. "wanderword-coffee.png". */
+export const getExportFilename = (caption: ExportCaption, extension: string) => {
+  const slug = caption.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `wanderword-${slug || 'map'}.${extension}`;
+};
@@ -0,0 +1,160 @@
+import type { AIProvider, AIProviderConfig } from '@/types';
+import type { CompletionRequest, DeltaHandler, FetchJourneyOptions } from './aiProvider';
+
+/**
+ * Registry of AI providers. Each provider declares what it needs from the
+ * config (key, base URL, model, headers), what it can do and how to send a request;
+ * fetchWordJourney, the settings panel, the API server and the CLI all read
+ * these declarations instead of switching on provider ids.
+ *
+ * The built-in providers are registered by aiProvider.ts. Further ones come
+ * from a providers config file as declarations that reuse a registered
+ * provider under a new id, name, key variable or defaults.
+ */
+
+export type ProviderCategory = 'cli' | 'api' | 'local' | 'offline';
+
+/** Settings a provider reads from AIProviderConfig; headers are written as "Name: value" lines */
+export type ProviderField = 'apiKey' | 'baseUrl' | 'model' | 'headers';
+
+export interface ProviderFieldSpec {
+  field: ProviderField;
+  label: string;
+  required?: boolean;
+  /** Used when the config leaves the field empty */
+  default?: string;
+  placeholder?: string;
+}
+
+export interface ProviderCapabilities {
+  /** The model can be told to answer with JSON only */
+  jsonMode: boolean;
+  /** Text arrives in deltas, so the map fills in while the model writes */
+  streaming: boolean;
+}
+
+export interface ProviderModel {
+  name: string;
+  size?: number;   // Bytes, when the provider reports it
+}
+
+export interface ProviderContext {
+  onDelta?: DeltaHandler;
+  runCLI?: FetchJourneyOptions['runCLI'];
+}
+
+export interface ProviderDefinition {
+  id: AIProvider;
+  name: string;
+  description: string;
+  category: ProviderCategory;
+  fields: ProviderFieldSpec[];
+  /** Environment variable holding the key on the API server; the browser calls such providers through it */
+  keyEnv?: string;
+  /** Environment variable listing the base URLs the API server may call (comma-separated, first is the default) */
+  baseUrlEnv?: string;
+  capabilities: ProviderCapabilities;
+  /** Sends one request; `config` has field defaults applied (see resolveProviderConfig) */
+  complete: (request: CompletionRequest, config: AIProviderConfig, context: ProviderContext) => Promise<string>;
+  /** Models to pick from in the settings panel */
+  listModels?: (config: AIProviderConfig) => Promise<ProviderModel[]>;
+}
+
+/**
+ * A provider from a config file: a registered provider under a new id, e.g.
+ * `{ "id": "gpt-4o", "extends": "openai-api", "defaults": { "model": "gpt-4o" } }`.
+ */
+export interface ProviderDeclaration {
+  id: string;
+  /** Registered provider whose implementation is reused */
+  extends: string;
+  name?: string;
+  description?: string;
+  category?: ProviderCategory;
+  keyEnv?: string;
+  baseUrlEnv?: string;
+  defaults?: Partial<Record<ProviderField, string>>;
+}
+
+const registry = new Map<string, ProviderDefinition>();
+
+/** Adds or replaces a provider by id. */
+export const registerProvider = (definition: ProviderDefinition) => {
+  registry.set(definition.id, definition);
+};
+
+export const getProvider = (id: string) => registry.get(id);
+
+/** Providers in registration order (built-ins first). */
+export const listProviders = () => [...registry.values()];
+
+export function providerFromDeclaration(declaration: ProviderDeclaration): ProviderDefinition {
+  if (!declaration.id || !declaration.extends) throw new Error('Provider config needs "id" and "extends"');
+  const base = getProvider(declaration.extends);
+  if (!base) throw new Error(`Provider "${declaration.id}" extends unknown provider "${declaration.extends}"`);
+
+  const defaults = declaration.defaults ?? {};
+  return {
+    ...base,
+    id: declaration.id,
+    name: declaration.name ?? declaration.id,
+    description: declaration.description ?? base.description,
+    category: declaration.category ?? base.category,
+    keyEnv: declaration.keyEnv ?? base.keyEnv,
+    // A declared base URL pins the endpoint instead of sharing the base provider's list
+    baseUrlEnv: declaration.baseUrlEnv ?? (defaults.baseUrl !== undefined ? undefined : base.baseUrlEnv),
+    fields: base.fields.map(spec =>
+      defaults[spec.field] !== undefined ? { ...spec, default: defaults[spec.field] } : spec
+    )
+  };
+}
+
+/** Registers declared providers; invalid ones are skipped with a warning. Returns the ids registered. */
+export function registerProvidersFromConfig(declarations: ProviderDeclaration[]): string[] {
+  const registered: string[] = [];
+  for (const declaration of declarations) {
+    try {
+      registerProvider(providerFromDeclaration(declaration));
+      registered.push(declaration.id);
+    } catch (error) {
+      console.warn(`[providers] ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return registered;
+}
+
+/** Headers from "Name: value" lines; lines without a name are ignored. */
+export function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/** Config with the provider's field defaults filled in; throws when a required field is still empty. */
+export function resolveProviderConfig(definition: ProviderDefinition, config: AIProviderConfig): AIProviderConfig {
+  const resolved = { ...config };
+  for (const spec of definition.fields) {
+    if (!resolved[spec.field] && spec.default) {
+      if (spec.field === 'headers') resolved.headers = parseHeaders(spec.default);
+      else resolved[spec.field] = spec.default;
+    }
+    if (spec.required && !resolved[spec.field]) {
+      throw new Error(`${spec.label} required for ${definition.name}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Whether to go through the API server, which holds the provider's key. Only
+ * the browser does; the server and CLI call providers with an optional key directly.
+ */
+export const usesServerKey = (provider: AIProvider) =>
+  typeof window !== 'undefined' && !!getProvider(provider)?.keyEnv;
+
+/** Whether the provider refuses to run without its key (some only send one when it is set). */
+export const requiresKey = (definition: ProviderDefinition) =>
+  definition.fields.some(spec => spec.field === 'apiKey' && spec.required);
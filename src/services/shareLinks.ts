@@ -0,0 +1,107 @@
+import type { AIProvider, WordJourney } from '@/types';
+import { JourneyValidationError, validateWordJourney } from './journeyValidator';
+import { getProvider } from './aiProvider';
+
+/**
+ * Shareable links. The query string says what to look up and where playback
+ * stands (`?w=coffee&p=claude&lang=Deutsch&step=2`), so opening it runs the
+ * same search. A link can also carry the whole journey, compressed into the
+ * fragment (`#j=...`), which renders without asking a provider at all.
+ */
+
+export type ShareQuery =
+  | { type: 'word'; words: string[] }              // Several words are compared
+  | { type: 'root'; root: string; language: string };
+
+export interface ShareState {
+  query: ShareQuery;
+  provider?: AIProvider;
+  responseLanguage?: string;
+  /** Active stage: 0 = origin, n = step n (for fan-outs, descendant n) */
+  step?: number;
+}
+
+const PAYLOAD_PARAM = 'j';
+
+/** Stable key for comparing what two links look up, ignoring playback position. */
+export const shareQueryKey = (query: ShareQuery | null | undefined) =>
+  !query ? '' : query.type === 'root' ? `root:${query.language}:${query.root}` : `word:${query.words.join(',')}`;
+
+export function parseShareUrl(href: string): { state: ShareState | null; payload: string | null } {
+  const url = new URL(href);
+  const params = url.searchParams;
+  const payload = new URLSearchParams(url.hash.slice(1)).get(PAYLOAD_PARAM);
+
+  let query: ShareQuery | null = null;
+  const root = params.get('root')?.trim();
+  const words = (params.get('w') ?? '').split(',').map(word => word.trim()).filter(Boolean);
+  if (root) {
+    query = { type: 'root', root, language: params.get('from')?.trim() || 'Latin' };
+  } else if (words.length > 0) {
+    query = { type: 'word', words };
+  }
+  if (!query) return { state: null, payload };
+
+  const state: ShareState = { query };
+  // Unknown (e.g. custom, not yet registered) providers fall back to the saved one
+  const provider = getProvider(params.get('p') ?? '');
+  if (provider && provider.category !== 'offline') state.provider = provider.id;
+  const responseLanguage = params.get('lang')?.trim();
+  if (responseLanguage) state.responseLanguage = responseLanguage;
+  const step = Number(params.get('step'));
+  if (params.has('step') && Number.isInteger(step) && step >= 0) state.step = step;
+
+  return { state, payload };
+}
+
+/** URL for a state on top of `base` (the current page); without a state it is the bare page. */
+export function buildShareUrl(base: string, state: ShareState | null, payload?: string | null): string {
+  const url = new URL(base);
+  url.search = '';
+  url.hash = '';
+  if (!state) return url.toString();
+
+  const { query, provider, responseLanguage, step } = state;
+  if (query.type === 'root') {
+    url.searchParams.set('root', query.root);
+    url.searchParams.set('from', query.language);
+  } else {
+    url.searchParams.set('w', query.words.join(','));
+  }
+  if (provider) url.searchParams.set('p', provider);
+  if (responseLanguage) url.searchParams.set('lang', responseLanguage);
+  if (step !== undefined) url.searchParams.set('step', String(step));
+  if (payload) url.hash = `${PAYLOAD_PARAM}=${payload}`;
+  return url.toString();
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const pipeThrough = async (bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/** Journey compressed (deflate) and base64url-encoded for the URL fragment. */
+export async function encodeJourneyPayload(journey: WordJourney): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(journey));
+  return toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+}
+
+/** Reads a journey back from a link; it is validated like any other input since links can be edited. */
+export async function decodeJourneyPayload(payload: string): Promise<WordJourney> {
+  let parsed: unknown;
+  try {
+    const json = await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The journey in this link is damaged');
+  }
+
+  const { valid, data, errors } = validateWordJourney(parsed);
+  if (!valid || !data) throw new JourneyValidationError(errors);
+  return data;
+}
@@ -0,0 +1,165 @@
+import type { Origin, JourneyStep, PartialJourney } from '@/types';
+import { validateOriginPartial, validateStepPartial } from './journeyValidator';
+
+/**
+ * Incremental parser for streamed WordJourney JSON.
+ *
+ * Feed it text deltas as they arrive; it tracks the JSON structure
+ * character by character and emits the origin and each journey step the
+ * moment their closing brace is seen, long before the narrative is done.
+ * Any prose or markdown before the root object is skipped.
+ */
+
+export interface JourneyStreamHandlers {
+  onOrigin?: (origin: Origin) => void;
+  onStep?: (step: JourneyStep, index: number) => void;
+  /** Top-level string fields such as word, currentMeaning, routeSummary */
+  onField?: (key: string, value: string) => void;
+}
+
+export interface JourneyStreamParser {
+  push: (chunk: string) => void;
+  readonly text: string;
+}
+
+export function createJourneyStreamParser(handlers: JourneyStreamHandlers): JourneyStreamParser {
+  let buffer = '';
+  let pos = 0;
+  let started = false;
+  let finished = false;
+
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+
+  const stack: string[] = [];   // open containers: '{' or '['
+  let rootKey: string | null = null;
+  let expectingRootKey = false;
+  let valueStart = -1;          // start of the origin object or current journey step
+  let stepIndex = 0;
+
+  const parseSlice = (start: number, end: number): unknown => {
+    try {
+      return JSON.parse(buffer.slice(start, end));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const onStringEnd = (end: number) => {
+    if (stack.length !== 1) return;
+    const value = parseSlice(stringStart, end);
+    if (typeof value !== 'string') return;
+
+    if (expectingRootKey) {
+      rootKey = value;
+      expectingRootKey = false;
+    } else if (rootKey) {
+      handlers.onField?.(rootKey, value);
+    }
+  };
+
+  const onOpen = (char: string, index: number) => {
+    stack.push(char);
+    const depth = stack.length;
+
+    if (depth === 1) {
+      expectingRootKey = true;
+    } else if (depth === 2 && rootKey === 'origin' && char === '{') {
+      valueStart = index;
+    } else if (depth === 3 && rootKey === 'journey' && stack[1] === '[' && char === '{') {
+      valueStart = index;
+    }
+  };
+
+  const onClose = (index: number) => {
+    const depth = stack.length;
+    stack.pop();
+
+    if (depth === 1) {
+      finished = true;
+    } else if (depth === 2 && rootKey === 'origin' && valueStart >= 0) {
+      const origin = validateOriginPartial(parseSlice(valueStart, index + 1));
+      if (origin) handlers.onOrigin?.(origin);
+      valueStart = -1;
+    } else if (depth === 3 && rootKey === 'journey' && valueStart >= 0) {
+      const step = validateStepPartial(parseSlice(valueStart, index + 1), stepIndex);
+      if (step) handlers.onStep?.(step, stepIndex);
+      stepIndex++;
+      valueStart = -1;
+    }
+  };
+
+  const push = (chunk: string) => {
+    buffer += chunk;
+
+    for (; pos < buffer.length && !finished; pos++) {
+      const char = buffer[pos];
+
+      if (!started) {
+        if (char !== '{') continue;
+        started = true;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          onStringEnd(pos + 1);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = pos;
+          break;
+        case '{':
+        case '[':
+          onOpen(char, pos);
+          break;
+        case '}':
+        case ']':
+          onClose(pos);
+          break;
+        case ',':
+          if (stack.length === 1) expectingRootKey = true;
+          break;
+      }
+    }
+  };
+
+  return {
+    push,
+    get text() {
+      return buffer;
+    }
+  };
+}
+
+/**
+ * Builds up a PartialJourney from streamed text and reports a fresh copy
+ * every time a field, the origin or a step completes.
+ */
+export function createPartialJourneyTracker(onProgress: (partial: PartialJourney) => void): JourneyStreamParser {
+  let partial: PartialJourney = { journey: [] };
+
+  const update = (next: PartialJourney) => {
+    partial = next;
+    onProgress(partial);
+  };
+
+  return createJourneyStreamParser({
+    onOrigin: origin => update({ ...partial, origin }),
+    onStep: step => update({ ...partial, journey: [...partial.journey, step] }),
+    onField: (key, value) => {
+      if (key === 'word' || key === 'currentMeaning' || key === 'routeSummary') {
+        update({ ...partial, [key]: value });
+      }
+    }
+  });
+}
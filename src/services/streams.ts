@@ -0,0 +1,61 @@
+/**
+ * Readers for streamed HTTP responses (Server-Sent Events and NDJSON).
+ * Work with fetch() in both the browser and Node 18+.
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    lines.forEach(onLine);
+  }
+
+  pending += decoder.decode();
+  if (pending) onLine(pending);
+}
+
+/** Reads a text/event-stream body, calling onMessage for every complete event. */
+export async function readSSE(response: Response, onMessage: (message: SSEMessage) => void): Promise<void> {
+  let event = 'message';
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) onMessage({ event, data: data.join('\n') });
+    event = 'message';
+    data = [];
+  };
+
+  await readLines(response, line => {
+    if (line === '') {
+      dispatch();
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  dispatch();
+}
+
+/** Reads a newline-delimited JSON body (Ollama), calling onObject per line. */
+export async function readNDJSON(response: Response, onObject: (value: unknown) => void): Promise<void> {
+  await readLines(response, line => {
+    if (line.trim()) onObject(JSON.parse(line));
+  });
+}
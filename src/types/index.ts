@@ -4,21 +4,31 @@ export interface Coordinates {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+/** Structured form of a stage's date; negative years are BCE */
+export interface DateRange {
+  startYear: number;
+  endYear: number;
+  approximate: boolean;
+}
+
 export interface Origin {
   word: string;
   language: string;
   meaning: string;
   location: Coordinates;
-  century: string;
+  century: string;    // Display string, e.g. "3rd Century BCE" (may be localized)
+  dates?: DateRange;
 }
 
 export interface JourneyStep {
   order: number;
+  parent?: number;  // Order of the stage this form came from (0 = origin); defaults to the previous step
   word: string;
   language: string;
   pronunciation?: string;
   location: Coordinates;
   century: string;
+  dates?: DateRange;
   routeType: 'land' | 'sea';
   notes: string;
 }
@@ -31,18 +41,141 @@ export interface WordJourney {
   narrative: string;
   routeSummary: string;
   funFact?: string;
+  consensus?: JourneyConsensus;  // Set when several providers were asked and merged
+}
+
+export type ConsensusField = 'word' | 'language' | 'century' | 'location';
+
+/** How well the providers agree on one stage of a merged journey */
+export interface StageConsensus {
+  order: number;                 // 0 = origin
+  support: number;               // Share of providers that have this stage (0-1)
+  fields: Record<ConsensusField, number>;  // Share of those providers agreeing with the merged value
+  agreement: number;             // support x mean field agreement
+  disagreements: string[];       // e.g. 'century: 16th Century (claude) / 17th Century (ollama)'
+}
+
+export interface JourneyConsensus {
+  providers: AIProvider[];       // Providers whose answers were merged
+  failed: { provider: AIProvider; error: string }[];
+  score: number;                 // Mean stage agreement (0-1)
+  stages: StageConsensus[];      // Origin first, then steps in journey order
+}
+
+/** One language a root word ended up in (cognate fan-out mode) */
+export interface Descendant {
+  word: string;
+  language: string;
+  meaning: string;
+  pronunciation?: string;
+  location: Coordinates;
+  century: string;      // When the form is first attested
+  dates?: DateRange;
+  routeType: 'land' | 'sea';
+  notes: string;
+}
+
+/** Where a root ended up: one origin fanning out into many descendant languages */
+export interface CognateFanout {
+  root: string;
+  origin: Origin;
+  descendants: Descendant[];
+  narrative: string;
+  funFact?: string;
+}
+
+/** Properties of a historical trade route in the bundled map overlay */
+export interface TradeRoute {
+  id: string;
+  name: string;
+  period: string;       // Display string, e.g. "13th – 17th c."
+  color: string;
+  keywords: string[];   // Lowercase fragments matched against a journey's routeSummary, in several languages
 }
 
 export type AIProvider =
   | 'gemini' | 'claude' | 'codex' | 'qwen'  // CLI agents
   | 'gemini-api' | 'openai-api' | 'anthropic-api'  // Direct APIs
-  | 'ollama';  // Local Ollama
+  | 'ollama'  // Local Ollama
+  | 'mock'    // Offline sample journeys (coffee, tea)
+  | (string & {});  // Registered at runtime (see services/providerRegistry.ts)
 
 export interface AIProviderConfig {
   provider: AIProvider;
   apiKey?: string;
-  baseUrl?: string;  // For Ollama custom endpoint
-  model?: string;    // Model name (e.g., llama3, mistral)
+  baseUrl?: string;  // Endpoint for local providers (e.g. Ollama, an OpenAI-compatible server)
+  headers?: Record<string, string>;  // Extra HTTP headers for OpenAI-compatible servers
+  model?: string;    // Model name (e.g., llama3, gpt-4o); each provider has a default
   timeout?: number;
   responseLanguage?: string;  // Language for AI response (e.g., "English", "Русский")
+  maxRetries?: number;        // Follow-up "fix your output" prompts after invalid JSON (default 2)
+  forceRefresh?: boolean;     // Skip cached results and ask the provider again
+  cacheTtl?: number;          // Cache lifetime in ms (default 30 days)
+}
+
+/** A journey still being streamed: origin and steps appear as soon as each is complete */
+export interface PartialJourney {
+  word?: string;
+  currentMeaning?: string;
+  routeSummary?: string;
+  origin?: Origin;
+  journey: JourneyStep[];
+}
+
+export interface ValidationIssue {
+  path: string;     // Field path, e.g. "journey[2].location.coordinates"
+  message: string;
+}
+
+export interface ValidationResult<T = WordJourney> {
+  valid: boolean;
+  data: T | null;                // Repaired journey (null when unrecoverable)
+  errors: ValidationIssue[];     // Problems that could not be repaired
+  repairs: ValidationIssue[];    // Fixes applied automatically
+}
+
+export interface JourneyResult {
+  journey: WordJourney;
+  attempts: number;              // Provider calls needed, including re-prompts (0 on cache hit)
+  repairs: ValidationIssue[];
+  cached: boolean;
+  cachedAt?: number;             // Epoch ms when the cached entry was created
+}
+
+export interface CognateResult {
+  fanout: CognateFanout;
+  attempts: number;
+  repairs: ValidationIssue[];
+}
+
+export interface CachedJourney {
+  key: string;
+  journey: WordJourney;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface JourneyCache {
+  get(key: string): Promise<CachedJourney | null>;
+  set(key: string, journey: WordJourney, ttlMs?: number): Promise<void>;
+}
+
+/** A past lookup, kept with its full journey (see services/journeyLibrary.ts) */
+export interface HistoryEntry {
+  id: string;                    // Same as the journey cache key, so repeating a lookup replaces its entry
+  query: string;                 // Word as it was searched
+  provider: AIProvider;
+  model?: string;
+  responseLanguage?: string;
+  journey: WordJourney;
+  viewedAt: number;              // Epoch ms of the latest lookup
+}
+
+/** User-defined group of journeys, e.g. "Food words" */
+export interface JourneyCollection {
+  id: string;
+  name: string;
+  journeys: WordJourney[];
+  createdAt: number;
+  updatedAt: number;
 }
@@ -0,0 +1,195 @@
+import type { DateRange } from '@/types';
+
+/**
+ * Turns the free-text dates models return ("17th Century", "III в. до н. э.",
+ * "siglo XVII", "公元前3世纪", "1652") into a year range so journeys can be
+ * sorted and share one timeline. Negative years are BCE.
+ *
+ * Covers centuries and millennia in English and the response languages
+ * offered in the settings panel, written with digits or Roman numerals.
+ * Ordinals spelled out as words are understood in English ("seventeenth
+ * century") and Arabic ("القرن السابع عشر") only.
+ */
+
+const NATIVE_DIGITS = [
+  '٠١٢٣٤٥٦٧٨٩',  // Arabic-Indic
+  '۰۱۲۳۴۵۶۷۸۹',  // Persian
+  '०१२३४५६७८९',  // Devanagari
+  '０１２３４５６７８９'  // Full-width
+];
+
+const BCE_MARKERS = [
+  /\bB\.?\s?C\.?(\s?E\.?)?(?![a-z])/i,  // BC, BCE, B.C.E.
+  /до\s+(н\.?\s*[эе]\.?|нашей|нашої)/i,    // Russian, Ukrainian
+  /\ba\.?\s?C\.?(?![a-z])/,                 // Spanish, Portuguese, Italian
+  /antes\s+de\s+Cristo|avanti\s+Cristo/i,
+  /v\.?\s?Chr\.?|vor\s+Christus/i,          // German, Dutch
+  /av\.?\s?J\.?-?C\.?|avant\s+J/i,          // French
+  /公元前|紀元前|기원전/,
+  /ق\.?\s?م|قبل\s+الميلاد/,
+  /ईसा\s*पूर्व|ई\.?\s?पू\.?/,
+  /\bM\.?Ö\.?(?![a-z])|Milattan\s+Önce/i,
+  /p\.?\s?n\.?\s?e\.?(?![a-z])|przed\s+naszą/i
+];
+
+const CENTURY_WORDS = /centur(y|ies)|cent\.|\bc\.(?=\s*$)|век|в\.|столітт|ст\.|siglo|\bs\.|jahrhundert|jh\.?|siècle|世纪|世紀|século|secolo|sec\.|세기|القرن|शताब्दी|सदी|yüzyıl|asır|wiek|\bw\.|eeuw/i;
+
+const MILLENNIUM_WORDS = /millenni|millénaire|milenio|milênio|milénio|jahrtausend|\bjt\.|тысячелет|тисячоліт|千年紀|千年纪|千纪|천년기|الألفية|ألفية|सहस्राब्दी|binyıl|tysiąclec/i;
+
+const APPROXIMATE_WORDS = /\bc\.\s*\d|\bca\.|circa|approx|around|about|~|около|примерно|hacia|aprox|\bum\b|etwa|vers\b|environ|约|大约|頃|ごろ|cerca|por volta|\bintorno|경|حوالي|लगभग|civar|około|\brond\b|omstreeks|близько/i;
+
+const EARLY_WORDS = /early|начал|principios|comienzos|anfang|früh|début|初|início|inizio|\b초|أوائل|प्रारंभ|आरंभ|başlar|początek|pocz\.|begin|vroeg|початок/i;
+const MID_WORDS = /\bmid|middle|середин|mediados|mitte|milieu|中期|中叶|中頃|meados|metà|중반|منتصف|मध्य|ortası|połow|midden/i;
+const LATE_WORDS = /late|конец|конц|finales|ende\b|spät|\bfin\b|末|final|fine\b|\b말|أواخر|अंत|sonlar|koniec|eind|laat|кінець|кінц/i;
+
+const ROMAN = /\b([IVXL]{1,7})(?:e|er|ème)?\b/;
+
+const ENGLISH_ORDINALS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth',
+  'eighteenth', 'nineteenth', 'twentieth'
+];
+// Only ordinals that name the unit, so "first attested in the ninth century" reads as 9
+const ENGLISH_ORDINAL = new RegExp(
+  `\\b(twenty[- ])?(${ENGLISH_ORDINALS.join('|')})` +
+  `(?=(?:\\s*(?:-|–|to|and|or)\\s*(?:twenty[- ])?[a-z]+)?[\\s-]+(?:centur|millenni))`,
+  'gi'
+);
+
+// Masculine stems for القرن, with ى/ة for the feminine الألفية; "الحادي" only occurs in 11 and 21
+const ARABIC_ORDINALS = ['أول|حادي', 'ثاني', 'ثالث', 'رابع', 'خامس', 'سادس', 'سابع', 'ثامن', 'تاسع', 'عاشر'];
+const ARABIC_ORDINAL = new RegExp(
+  `ال(${ARABIC_ORDINALS.join('|')})[ىة]?(?:\\s+(عشرة?)|\\s+و(العشر))?|(العشر)(?:ين|ون)`,
+  'g'
+);
+const ARABIC_UNIT = /القر[نو]|الألفية|ألفية/;
+
+const toAsciiDigits = (text: string) =>
+  text.replace(/[٠-٩۰-۹०-९０-９]/g, char => {
+    for (const digits of NATIVE_DIGITS) {
+      const idx = digits.indexOf(char);
+      if (idx >= 0) return String(idx);
+    }
+    return char;
+  });
+
+const romanToNumber = (roman: string): number | null => {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50 };
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = values[roman[i]];
+    const next = values[roman[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total > 0 && total <= 40 ? total : null;
+};
+
+/** Spelled-out ordinals naming a century or millennium, in order of appearance. */
+const ordinalWords = (text: string): number[] => {
+  const english = [...text.matchAll(ENGLISH_ORDINAL)].map(m =>
+    ENGLISH_ORDINALS.indexOf(m[2].toLowerCase()) + 1 + (m[1] ? 20 : 0)
+  );
+  if (english.length > 0) return english;
+
+  // Arabic puts the ordinal after the unit: "النصف الأول من القرن السابع عشر" is the 17th
+  const unit = ARABIC_UNIT.exec(text);
+  if (!unit) return [];
+  return [...text.slice(unit.index).matchAll(ARABIC_ORDINAL)].map(m => {
+    if (m[4]) return 20;
+    const n = ARABIC_ORDINALS.findIndex(stems => stems.split('|').includes(m[1])) + 1;
+    return n + (m[2] ? 10 : m[3] ? 20 : 0);
+  });
+};
+
+/** Years covered by period n (1-based) of `span` years; BCE periods count backwards from year 1. */
+const periodRange = (n: number, span: number, bce: boolean): [number, number] =>
+  bce ? [-(n * span), -((n - 1) * span + 1)] : [(n - 1) * span + 1, n * span];
+
+/** Narrows a range to its first, middle or last third for "early", "mid" and "late". */
+const applyPeriodModifier = (text: string, [start, end]: [number, number]): [number, number] | null => {
+  const third = Math.round((end - start + 1) / 3);
+  if (EARLY_WORDS.test(text)) return [start, start + third - 1];
+  if (MID_WORDS.test(text)) return [start + third, end - third];
+  if (LATE_WORDS.test(text)) return [end - third + 1, end];
+  return null;
+};
+
+export function parseDateRange(input: string): DateRange | null {
+  if (!input) return null;
+  const text = toAsciiDigits(input.normalize('NFC')).trim();
+  const bce = BCE_MARKERS.some(marker => marker.test(text));
+  let approximate = APPROXIMATE_WORDS.test(text);
+
+  let range: [number, number] | null = null;
+
+  const millennia = MILLENNIUM_WORDS.test(text);
+  if (millennia || CENTURY_WORDS.test(text) || /\d\s*(st|nd|rd|th)\b/i.test(text)) {
+    // Century or millennium numbers: "17th", "17.", "17e", "XVII", "17世纪", "17वीं", "seventeenth";
+    // a second one makes a range
+    const numbers = [...text.matchAll(/(?<!\d)(\d{1,2})(?!\d)/g)].map(m => Number(m[1]));
+    if (numbers.length === 0) {
+      const roman = [...text.matchAll(new RegExp(ROMAN.source, 'g'))]
+        .map(m => romanToNumber(m[1]))
+        .filter((n): n is number => n !== null);
+      numbers.push(...roman);
+    }
+    if (numbers.length === 0) numbers.push(...ordinalWords(text));
+
+    if (numbers.length > 0) {
+      const span = millennia ? 1000 : 100;
+      const first = periodRange(numbers[0], span, bce);
+      const last = periodRange(numbers[numbers.length - 1], span, bce);
+      range = [Math.min(first[0], last[0]), Math.max(first[1], last[1])];
+
+      if (numbers.length === 1) {
+        const narrowed = applyPeriodModifier(text, range);
+        if (narrowed) {
+          range = narrowed;
+          approximate = true;
+        }
+      }
+    }
+  }
+
+  if (!range) {
+    // Plain years: "1652", "c. 1650", "1650s", "1650-1700", "500 BCE"
+    const years = [...text.matchAll(/(?<!\d)(\d{1,4})(?!\d)(s|'s)?/g)];
+    if (years.length > 0) {
+      const sign = bce ? -1 : 1;
+      const first = Number(years[0][1]) * sign;
+      if (years.length > 1) {
+        const second = Number(years[years.length - 1][1]) * sign;
+        range = [Math.min(first, second), Math.max(first, second)];
+      } else if (years[0][2]) {
+        // "1600s" is the century, "1650s" the decade
+        range = [first, first + (first % 100 === 0 ? 99 : 9)];
+        approximate = true;
+      } else {
+        range = [first, first];
+      }
+    }
+  }
+
+  if (!range) return null;
+  return { startYear: range[0], endYear: range[1], approximate };
+}
+
+export const formatYear = (year: number) =>
+  year < 0 ? `${-year} BCE` : `${year} CE`;
+
+export const formatDateRange = ({ startYear, endYear, approximate }: DateRange) => {
+  const prefix = approximate ? 'c. ' : '';
+  if (startYear === endYear) return `${prefix}${formatYear(startYear)}`;
+  if (startYear < 0 && endYear < 0) return `${prefix}${-startYear}–${-endYear} BCE`;
+  if (startYear > 0) return `${prefix}${startYear}–${endYear} CE`;
+  return `${prefix}${formatYear(startYear)} – ${formatYear(endYear)}`;
+};
+
+/** Single representative year (the middle of the range) for sorting and timelines. */
+export const midYear = ({ startYear, endYear }: DateRange) => Math.round((startYear + endYear) / 2);
+
+/** Year of a stage: its structured dates when present, otherwise parsed from the display string. */
+export function getStageYear(stage: { century: string; dates?: DateRange }): number | null {
+  const dates = stage.dates ?? parseDateRange(stage.century);
+  return dates ? midYear(dates) : null;
+}
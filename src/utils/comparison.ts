@@ -0,0 +1,37 @@
+import type { WordJourney } from '@/types';
+import { ORIGIN_ORDER } from './journeyTree';
+
+/**
+ * Helpers for comparing several journeys on one map: stroke colours and the
+ * waypoints that two journeys have in common. The shared timeline lives in
+ * timeline.ts.
+ */
+
+/** Most journeys the map can overlay at once */
+export const MAX_COMPARE = 4;
+
+/** Stroke colour per compared journey, in search order */
+export const COMPARISON_COLORS = ['#000000', '#D9480F', '#1864AB', '#5F3DC4', '#2B8A3E'];
+
+export const getComparisonColor = (index: number) =>
+  COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+
+/** Waypoints closer than this (in degrees) count as the same place */
+const SHARED_DISTANCE_DEG = 1.5;
+
+/** Orders (0 = origin) of each journey's waypoints that another journey also passes through. */
+export function findSharedWaypoints(journeys: WordJourney[]): Set<number>[] {
+  const points = journeys.map(journey => [
+    { order: ORIGIN_ORDER, coordinates: journey.origin.location.coordinates },
+    ...journey.journey.map(step => ({ order: step.order, coordinates: step.location.coordinates }))
+  ]);
+
+  return points.map((own, i) => new Set(
+    own
+      .filter(point => points.some((other, j) => j !== i && other.some(({ coordinates }) =>
+        Math.abs(coordinates[0] - point.coordinates[0]) <= SHARED_DISTANCE_DEG &&
+        Math.abs(coordinates[1] - point.coordinates[1]) <= SHARED_DISTANCE_DEG
+      )))
+      .map(point => point.order)
+  ));
+}
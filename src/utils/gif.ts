@@ -0,0 +1,141 @@
+/**
+ * Minimal animated GIF encoder. Each frame gets its own 256-colour palette
+ * (the most common colours in it), which suits flat map graphics, and is
+ * encoded as soon as it is captured, so long recordings don't hold raw pixels.
+ */
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4095;
+
+/** Blocks of at most 255 bytes, each prefixed with its length, ending with a 0 block. */
+const toSubBlocks = (data: number[]): number[] => {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const chunk = data.slice(i, i + 255);
+    out.push(chunk.length, ...chunk);
+  }
+  out.push(0);
+  return out;
+};
+
+/** Variable-width LZW compression of palette indices, as GIF image data expects it. */
+function encodeLzw(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode > MAX_CODE) {
+      // Table full: start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+}
+
+/** Palette of the most common colours (at 5 bits per channel) and each pixel's index into it. */
+function quantize(pixels: Uint8ClampedArray): { palette: number[]; indices: Uint8Array } {
+  const binOf = (i: number) => ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+  const counts = new Uint32Array(1 << 15);
+  for (let i = 0; i < pixels.length; i += 4) counts[binOf(i)]++;
+
+  const used = Array.from(counts.keys()).filter(bin => counts[bin] > 0);
+  const colors = used
+    .sort((a, b) => counts[b] - counts[a])
+    .slice(0, MAX_COLORS)
+    .map(bin => [((bin >> 10) << 3) | 4, (((bin >> 5) & 31) << 3) | 4, ((bin & 31) << 3) | 4]);
+
+  // Every used bin maps to its nearest palette colour
+  const lookup = new Uint8Array(1 << 15);
+  for (const bin of used) {
+    const [r, g, b] = [((bin >> 10) << 3) | 4, (((bin >> 5) & 31) << 3) | 4, ((bin & 31) << 3) | 4];
+    let best = 0;
+    let bestDistance = Infinity;
+    colors.forEach(([pr, pg, pb], idx) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = idx;
+      }
+    });
+    lookup[bin] = best;
+  }
+
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < indices.length; i++) indices[i] = lookup[binOf(i * 4)];
+
+  const palette = colors.flat();
+  while (palette.length < MAX_COLORS * 3) palette.push(0);
+  return { palette, indices };
+}
+
+/** One encoded frame (graphic control extension, image descriptor, local palette, image data). */
+export function encodeGifFrame(pixels: Uint8ClampedArray, width: number, height: number, delayMs: number): Uint8Array {
+  const { palette, indices } = quantize(pixels);
+  const delay = Math.max(2, Math.round(delayMs / 10));
+
+  return new Uint8Array([
+    0x21, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00,
+    0x2c, 0, 0, 0, 0, width & 0xff, width >> 8, height & 0xff, height >> 8, 0x87,
+    ...palette,
+    8,
+    ...toSubBlocks(encodeLzw(indices, 8))
+  ]);
+}
+
+/** Complete looping GIF from frames made by encodeGifFrame. */
+export function encodeGif(width: number, height: number, frames: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const header = [
+    ...Array.from('GIF89a', char => char.charCodeAt(0)),
+    width & 0xff, width >> 8, height & 0xff, height >> 8, 0x70, 0, 0,
+    // NETSCAPE2.0 extension: loop forever
+    0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', char => char.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00
+  ];
+  const size = header.length + frames.reduce((sum, frame) => sum + frame.length, 0) + 1;
+  const gif = new Uint8Array(size);
+  gif.set(header, 0);
+
+  let offset = header.length;
+  for (const frame of frames) {
+    gif.set(frame, offset);
+    offset += frame.length;
+  }
+  gif[offset] = 0x3b;
+  return gif;
+}
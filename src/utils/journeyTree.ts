@@ -0,0 +1,39 @@
+import type { JourneyStep } from '@/types';
+
+/**
+ * Helpers for branching journeys. Each step may name the stage it came from
+ * via `parent` (0 = origin); steps without one continue from the previous
+ * step, so linear journeys need no changes.
+ */
+
+export const ORIGIN_ORDER = 0;
+
+export const getParentOrder = (step: JourneyStep): number =>
+  step.parent ?? step.order - 1;
+
+/** Children of every stage, keyed by parent order (0 = origin), in journey order. */
+export function getChildrenByParent(journey: JourneyStep[]): Map<number, JourneyStep[]> {
+  const children = new Map<number, JourneyStep[]>();
+  for (const step of journey) {
+    const parent = getParentOrder(step);
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(step);
+  }
+  return children;
+}
+
+export const isBranchingJourney = (journey: JourneyStep[]) =>
+  [...getChildrenByParent(journey).values()].some(children => children.length > 1);
+
+/** Orders of a step and all of its ancestors up to (not including) the origin. */
+export function getAncestry(journey: JourneyStep[], order: number): number[] {
+  const byOrder = new Map(journey.map(step => [step.order, step]));
+  const chain: number[] = [];
+  let current = byOrder.get(order);
+
+  while (current && !chain.includes(current.order)) {
+    chain.push(current.order);
+    current = byOrder.get(getParentOrder(current));
+  }
+  return chain;
+}
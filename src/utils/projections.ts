@@ -0,0 +1,78 @@
+import * as d3 from 'd3';
+
+/**
+ * Map projections the world map can be drawn in. Flat projections pan and
+ * zoom to a waypoint; the orthographic globe rotates to centre it instead.
+ */
+
+export type ProjectionId = 'natural_earth' | 'equal_earth' | 'mercator' | 'orthographic';
+
+export interface ProjectionOption {
+  id: ProjectionId;
+  label: string;
+  header: string;       // Name shown in the app header, e.g. "natural_earth_1"
+  isGlobe: boolean;
+}
+
+export const PROJECTIONS: ProjectionOption[] = [
+  { id: 'natural_earth', label: 'Natural Earth', header: 'natural_earth_1', isGlobe: false },
+  { id: 'equal_earth', label: 'Equal Earth', header: 'equal_earth', isGlobe: false },
+  { id: 'mercator', label: 'Mercator', header: 'mercator', isGlobe: false },
+  { id: 'orthographic', label: 'Globe', header: 'orthographic', isGlobe: true }
+];
+
+export const DEFAULT_PROJECTION: ProjectionId = 'natural_earth';
+
+/** [lambda, phi] rotation of the globe; [-lon, -lat] centres that point */
+export type GlobeRotation = [number, number];
+
+const STORAGE_KEY = 'wanderword_projection';
+const MERCATOR_LIMIT = 85;
+
+export const getProjectionOption = (id: ProjectionId): ProjectionOption =>
+  PROJECTIONS.find(option => option.id === id) ?? PROJECTIONS[0];
+
+/** Projection filling a width x height viewport; rotation only applies to the globe. */
+export function createProjection(
+  id: ProjectionId,
+  width: number,
+  height: number,
+  rotation: GlobeRotation = [0, 0]
+): d3.GeoProjection {
+  switch (id) {
+    case 'equal_earth':
+      return d3.geoEqualEarth().scale(width / 5.6).translate([width / 2, height / 2.2]);
+    case 'mercator': {
+      // Cut off at ±85° like web maps; the poles are infinitely far away
+      const scale = width / (2 * Math.PI);
+      const mercator = d3.geoMercator().scale(scale).translate([width / 2, height / 1.7]);
+      const top = mercator([0, MERCATOR_LIMIT])![1];
+      const bottom = mercator([0, -MERCATOR_LIMIT])![1];
+      return mercator.clipExtent([[0, top], [width, bottom]]);
+    }
+    case 'orthographic':
+      return d3.geoOrthographic()
+        .scale(Math.min(width, height) / 2.4)
+        .translate([width / 2, height / 2])
+        .rotate(rotation)
+        .clipAngle(90);
+    default:
+      return d3.geoNaturalEarth1().scale(width / 5.5).translate([width / 2, height / 2.2]);
+  }
+}
+
+/** Rotation that brings a point to the centre of the globe. */
+export const getCenteringRotation = ([lon, lat]: [number, number]): GlobeRotation => [-lon, -lat];
+
+/** Whether a point is on the visible hemisphere of a globe with this rotation. */
+export const isOnVisibleSide = (point: [number, number], [lambda, phi]: GlobeRotation) =>
+  d3.geoDistance(point, [-lambda, -phi]) <= Math.PI / 2;
+
+export function loadSavedProjection(): ProjectionId {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return PROJECTIONS.some(option => option.id === saved) ? (saved as ProjectionId) : DEFAULT_PROJECTION;
+}
+
+export function saveProjection(id: ProjectionId) {
+  localStorage.setItem(STORAGE_KEY, id);
+}
@@ -0,0 +1,310 @@
+import * as d3 from 'd3';
+import type { Feature, FeatureCollection, Polygon, MultiPolygon } from 'geojson';
+import type { WordJourney } from '@/types';
+import { ORIGIN_ORDER, getParentOrder } from './journeyTree';
+
+/**
+ * Geographic paths for journey legs.
+ *
+ * A leg whose great circle stays on the right kind of surface (water for sea
+ * legs, land for land legs) is drawn as that great circle. Otherwise it is
+ * routed with A* over a coarse grid built from the land polygons and then
+ * straightened; a leg with no route short of a long detour falls back to the
+ * great circle. Routes are lists of [lon, lat], so they re-project with
+ * whatever projection draws them.
+ */
+
+export type GeoPoint = [number, number];
+export type RouteType = 'land' | 'sea';
+
+export interface LandGrid {
+  cellSize: number;   // Degrees per cell
+  cols: number;
+  rows: number;
+  land: Uint8Array;   // 0 = water, 1 = land, 2 = polar ice; rows run from the north pole, columns from 180°W
+}
+
+/** Grid resolution in degrees */
+const GRID_DEG = 1;
+/** Cells polewards of this latitude are ice, closed to land and sea routes alike */
+const POLAR_LIMIT = 72;
+const ICE = 2;
+/** Cost multiplier for crossing the wrong kind of cell; keeps straits narrower than a cell passable */
+const OFF_ROUTE_PENALTY = 25;
+/** Spacing (in degrees) at which segments are checked against the grid */
+const SAMPLE_DEG = 0.5;
+/** Routes longer than this multiple of the great circle are dropped for it; sea routes may round a continent */
+const MAX_DETOUR: Record<RouteType, number> = { land: 1.5, sea: 3 };
+
+const DEGREES = 180 / Math.PI;
+
+const getRings = (land: FeatureCollection | Feature): GeoPoint[][] => {
+  const features = land.type === 'FeatureCollection' ? land.features : [land];
+  return (features as Feature<Polygon | MultiPolygon>[]).flatMap(({ geometry }) => {
+    if (geometry?.type === 'Polygon') return geometry.coordinates as GeoPoint[][];
+    if (geometry?.type === 'MultiPolygon') return geometry.coordinates.flat() as GeoPoint[][];
+    return [];
+  });
+};
+
+/**
+ * Ring with continuous longitudes, which may run past ±180 where it crosses
+ * the antimeridian. A ring around a pole (Antarctica) is closed along the pole.
+ */
+const unwrapRing = (ring: GeoPoint[]): GeoPoint[] => {
+  let offset = 0;
+  const unwrapped = ring.map(([lon, lat], i): GeoPoint => {
+    const previous = i > 0 ? ring[i - 1][0] : lon;
+    if (lon - previous > 180) offset -= 360;
+    else if (previous - lon > 180) offset += 360;
+    return [lon + offset, lat];
+  });
+  if (offset === 0) return unwrapped;
+
+  const first = unwrapped[0];
+  const last = unwrapped[unwrapped.length - 1];
+  const pole = first[1] < 0 ? -90 : 90;
+  return [...unwrapped, [last[0], pole], [first[0], pole], first];
+};
+
+/** Longitudes where a ring crosses a parallel, west to east. */
+const scanline = (ring: GeoPoint[], lat: number) => {
+  const crossings: number[] = [];
+  for (let i = 1; i < ring.length; i++) {
+    const [a, b] = [ring[i - 1], ring[i]];
+    if ((a[1] > lat) === (b[1] > lat)) continue;
+    crossings.push(a[0] + ((lat - a[1]) / (b[1] - a[1])) * (b[0] - a[0]));
+  }
+  return crossings.sort((x, y) => x - y);
+};
+
+/**
+ * Rasterises land polygons (e.g. world-atlas `land`) into a grid for route
+ * finding. Each ring is filled as a flat lon/lat shape, one parallel per row,
+ * and toggles the cells it covers so holes come out as water; at this
+ * resolution that matches the spherical shapes closely.
+ */
+export function buildLandGrid(land: FeatureCollection | Feature, cellSize = GRID_DEG): LandGrid {
+  const rings = getRings(land).map(unwrapRing);
+  const cols = Math.round(360 / cellSize);
+  const rows = Math.round(180 / cellSize);
+  const grid: LandGrid = { cellSize, cols, rows, land: new Uint8Array(cols * rows) };
+
+  for (let row = 0; row < rows; row++) {
+    const lat = 90 - (row + 0.5) * cellSize;
+    if (Math.abs(lat) > POLAR_LIMIT) {
+      grid.land.fill(ICE, row * cols, (row + 1) * cols);
+      continue;
+    }
+
+    for (const ring of rings) {
+      const crossings = scanline(ring, lat);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const first = Math.ceil((crossings[i] + 180) / cellSize - 0.5);
+        const last = Math.floor((crossings[i + 1] + 180) / cellSize - 0.5);
+        for (let col = first; col <= last; col++) {
+          grid.land[row * cols + ((col % cols) + cols) % cols] ^= 1;
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+const cellCenter = ({ cellSize, cols }: LandGrid, idx: number): GeoPoint => [
+  -180 + ((idx % cols) + 0.5) * cellSize,
+  90 - (Math.floor(idx / cols) + 0.5) * cellSize
+];
+
+const cellOf = ({ cellSize, cols, rows }: LandGrid, [lon, lat]: GeoPoint) => {
+  const col = ((Math.floor((lon + 180) / cellSize) % cols) + cols) % cols;
+  const row = Math.max(0, Math.min(rows - 1, Math.floor((90 - lat) / cellSize)));
+  return row * cols + col;
+};
+
+/** Whether every sample along the great circle from a to b lies in an allowed cell. */
+function isSegmentClear(grid: LandGrid, a: GeoPoint, b: GeoPoint, allowed: (idx: number) => boolean): boolean {
+  const interpolate = d3.geoInterpolate(a, b);
+  const samples = Math.ceil((d3.geoDistance(a, b) * DEGREES) / SAMPLE_DEG);
+  for (let i = 0; i <= samples; i++) {
+    if (!allowed(cellOf(grid, interpolate(i / Math.max(samples, 1)) as GeoPoint))) return false;
+  }
+  return true;
+}
+
+/** Minimal binary heap keyed on priority, for the A* open set. */
+class MinHeap {
+  private items: { priority: number; value: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(value: number, priority: number) {
+    const items = this.items;
+    items.push({ priority, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.value;
+  }
+}
+
+/** A* over the grid (8-connected, wrapping at the antimeridian); returns the cells from start to goal. */
+function findGridPath(grid: LandGrid, start: number, goal: number, preferred: (idx: number) => boolean): number[] | null {
+  const { cols, rows, cellSize } = grid;
+  const cost = new Float64Array(cols * rows).fill(Infinity);
+  const cameFrom = new Int32Array(cols * rows).fill(-1);
+  const closed = new Uint8Array(cols * rows);
+  // Great-circle distance to the goal (haversine) from per-row and per-column tables; this runs for every cell visited
+  const rowLat = Float64Array.from({ length: rows }, (_, row) => (90 - (row + 0.5) * cellSize) / DEGREES);
+  const rowCos = rowLat.map(Math.cos);
+  const colLon = Float64Array.from({ length: cols }, (_, col) => (-180 + (col + 0.5) * cellSize) / DEGREES);
+  const goalRow = Math.floor(goal / cols);
+  const goalCol = goal % cols;
+  const heuristic = (idx: number) => {
+    const row = Math.floor(idx / cols);
+    const dLat = Math.sin((rowLat[row] - rowLat[goalRow]) / 2);
+    const dLon = Math.sin((colLon[idx % cols] - colLon[goalCol]) / 2);
+    const a = dLat * dLat + rowCos[row] * rowCos[goalRow] * dLon * dLon;
+    return 2 * Math.asin(Math.min(1, Math.sqrt(a))) * DEGREES;
+  };
+
+  const open = new MinHeap();
+  cost[start] = 0;
+  open.push(start, heuristic(start));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goal) break;
+    // A cell is queued again whenever a cheaper way to it turns up; expand it only once
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const row = Math.floor(current / cols);
+    const col = current % cols;
+    const cosLat = rowCos[row];
+
+    for (let dr = -1; dr <= 1; dr++) {
+      const nextRow = row + dr;
+      if (nextRow < 0 || nextRow >= rows) continue;
+      for (let dc = -1; dc <= 1; dc++) {
+        if (dr === 0 && dc === 0) continue;
+        const next = nextRow * cols + ((col + dc + cols) % cols);
+        if (grid.land[next] === ICE && next !== goal) continue;
+        const step = Math.hypot(dc * cosLat, dr) * cellSize;
+        const penalty = next === goal || preferred(next) ? 1 : OFF_ROUTE_PENALTY;
+        const nextCost = cost[current] + step * penalty;
+
+        if (nextCost < cost[next]) {
+          cost[next] = nextCost;
+          cameFrom[next] = current;
+          open.push(next, nextCost + heuristic(next));
+        }
+      }
+    }
+  }
+
+  if (cameFrom[goal] < 0) return null;
+  const cells = [goal];
+  while (cells[cells.length - 1] !== start) cells.push(cameFrom[cells[cells.length - 1]]);
+  return cells.reverse();
+}
+
+/** Drops grid corners: each point links to the farthest later point it can reach in a clear line. */
+function straighten(grid: LandGrid, points: GeoPoint[], allowed: (idx: number) => boolean): GeoPoint[] {
+  const result = [points[0]];
+  let i = 0;
+  while (i < points.length - 1) {
+    let j = i + 1;
+    while (j + 1 < points.length && isSegmentClear(grid, points[i], points[j + 1], allowed)) j++;
+    result.push(points[j]);
+    i = j;
+  }
+  return result;
+}
+
+const routeLength = (route: GeoPoint[]) =>
+  route.slice(1).reduce((sum, point, i) => sum + d3.geoDistance(route[i], point), 0);
+
+// Routes per grid, so re-renders (e.g. while a journey streams in) don't search every leg again
+const routeCache = new WeakMap<LandGrid, Map<string, GeoPoint[]>>();
+
+/** Path for one leg; without a grid (land not loaded yet) the great circle is used. */
+export function computeRoute(from: GeoPoint, to: GeoPoint, routeType: RouteType, grid: LandGrid | null): GeoPoint[] {
+  if (!grid) return [from, to];
+
+  let routes = routeCache.get(grid);
+  if (!routes) {
+    routes = new Map();
+    routeCache.set(grid, routes);
+  }
+  const key = `${from}|${to}|${routeType}`;
+  let route = routes.get(key);
+  if (!route) {
+    route = findRoute(from, to, routeType, grid);
+    routes.set(key, route);
+  }
+  return route;
+}
+
+function findRoute(from: GeoPoint, to: GeoPoint, routeType: RouteType, grid: LandGrid): GeoPoint[] {
+  const direct = [from, to];
+
+  const start = cellOf(grid, from);
+  const goal = cellOf(grid, to);
+  if (start === goal) return direct;
+
+  // Endpoints are usually coastal cities, so their own cells never block a route
+  const preferred = (idx: number) => (grid.land[idx] === 1) === (routeType === 'land');
+  const allowed = (idx: number) => idx === start || idx === goal || preferred(idx);
+  if (isSegmentClear(grid, from, to, allowed)) return direct;
+
+  const cells = findGridPath(grid, start, goal, preferred);
+  if (!cells) return direct;
+
+  // Straightening may cut across any cell the grid path already crossed
+  const onPath = new Set(cells);
+  const points: GeoPoint[] = [from, ...cells.slice(1, -1).map(idx => cellCenter(grid, idx)), to];
+  const route = straighten(grid, points, idx => allowed(idx) || onPath.has(idx));
+  return routeLength(route) > MAX_DETOUR[routeType] * routeLength(direct) ? direct : route;
+}
+
+/** Routes for every leg of a journey, in step order; each leg starts at its parent stage. */
+export function getJourneyRoutes(journey: WordJourney, grid: LandGrid | null): GeoPoint[][] {
+  const pointsByOrder = new Map<number, GeoPoint>([
+    [ORIGIN_ORDER, journey.origin.location.coordinates],
+    ...journey.journey.map(step => [step.order, step.location.coordinates] as [number, GeoPoint])
+  ]);
+
+  return journey.journey.map(step => computeRoute(
+    pointsByOrder.get(getParentOrder(step)) ?? journey.origin.location.coordinates,
+    step.location.coordinates,
+    step.routeType,
+    grid
+  ));
+}
@@ -0,0 +1,74 @@
+import type { WordJourney } from '@/types';
+import { getStageYear } from './century';
+import { ORIGIN_ORDER, getParentOrder } from './journeyTree';
+
+/**
+ * Year axis for playback. Journeys are placed on real years (from their
+ * structured dates or parsed centuries) so a 1000-year gap takes a hundred
+ * times longer to play than a 10-year one.
+ */
+
+export interface YearAxis {
+  startYear: number;   // Earliest origin or stage
+  endYear: number;     // The present (or the latest stage, if dated later)
+  ticks: number[];     // Distinct stage years, oldest first
+}
+
+/** A leg runs from the year of the stage it leaves to the year of the stage it reaches. */
+export interface LegYears {
+  from: number;
+  to: number;
+}
+
+/**
+ * Approximate year of each step. Steps whose date cannot be read inherit
+ * the year of the stage they came from, so they appear together with it.
+ */
+export function getStepYears(journey: WordJourney): number[] {
+  return getLegYears(journey).map(leg => leg.to);
+}
+
+export function getLegYears(journey: WordJourney): LegYears[] {
+  const yearByOrder = new Map<number, number>([
+    [ORIGIN_ORDER, getStageYear(journey.origin) ?? -Infinity]
+  ]);
+
+  return journey.journey.map(step => {
+    const from = yearByOrder.get(getParentOrder(step)) ?? -Infinity;
+    const to = getStageYear(step) ?? from;
+    yearByOrder.set(step.order, to);
+    return { from, to };
+  });
+}
+
+/** Distinct step years across all journeys, oldest first: one playback tick each. */
+export function buildTimeline(journeys: WordJourney[]): number[] {
+  const years = new Set(journeys.flatMap(getStepYears).filter(Number.isFinite));
+  return [...years].sort((a, b) => a - b);
+}
+
+/** Axis from the oldest origin to the present; null when no date could be read. */
+export function buildYearAxis(journeys: WordJourney[]): YearAxis | null {
+  const ticks = buildTimeline(journeys);
+  const origins = journeys
+    .map(journey => getStageYear(journey.origin))
+    .filter((year): year is number => year !== null);
+  const known = [...origins, ...ticks];
+  if (known.length === 0) return null;
+
+  return {
+    startYear: Math.min(...known),
+    endYear: Math.max(new Date().getFullYear(), ...known),
+    ticks
+  };
+}
+
+/** How much of a leg has been travelled by `year` (0-1). Undated legs appear at once. */
+export function getLegProgress({ from, to }: LegYears, year: number): number {
+  if (to <= from || !Number.isFinite(from)) return year >= to ? 1 : 0;
+  return Math.max(0, Math.min(1, (year - from) / (to - from)));
+}
+
+/** Index of the last step reached by `year` (-1 when none), for linear panels and markers. */
+export const getReachedIndex = (years: number[], year: number) =>
+  years.reduce((last, stepYear, idx) => (stepYear <= year ? idx : last), -1);
@@ -0,0 +1,70 @@
+import * as d3 from 'd3';
+import type { FeatureCollection, MultiLineString } from 'geojson';
+import type { TradeRoute } from '@/types';
+import type { GeoPoint } from './routing';
+import tradeRoutes from '@/data/tradeRoutes.json';
+
+/**
+ * Bundled overlay of major historical trade routes. A journey is linked to a
+ * route when its routeSummary names it, or when enough of its legs run
+ * along the route.
+ */
+
+export const TRADE_ROUTES = tradeRoutes as FeatureCollection<MultiLineString, TradeRoute>;
+
+/** Leg samples closer than this (in degrees) to a route run along it */
+const NEAR_DEG = 3;
+/** A leg matches a route when at least this long a stretch (in degrees) runs along it... */
+const MIN_SHARED_DEG = 8;
+/** ...and that stretch is at least this share of the leg, so long voyages don't match every coast they pass */
+const MIN_SHARED_SHARE = 0.3;
+/** Spacing (in degrees) of the points lines are compared at */
+const SAMPLE_DEG = 1;
+
+const DEGREES = 180 / Math.PI;
+
+/** Points every SAMPLE_DEG along a path of great-circle segments. */
+const samplePath = (path: GeoPoint[]): GeoPoint[] =>
+  path.flatMap((point, i) => {
+    if (i === 0) return [point];
+    const previous = path[i - 1];
+    const interpolate = d3.geoInterpolate(previous, point);
+    const count = Math.max(1, Math.ceil((d3.geoDistance(previous, point) * DEGREES) / SAMPLE_DEG));
+    return d3.range(1, count + 1).map(k => interpolate(k / count) as GeoPoint);
+  });
+
+const routeSamples = new Map(
+  TRADE_ROUTES.features.map(feature => [
+    feature.properties.id,
+    feature.geometry.coordinates.flatMap(line => samplePath(line as GeoPoint[]))
+  ])
+);
+
+const mentionsRoute = (summary: string, route: TradeRoute) => {
+  const text = summary.toLowerCase();
+  return route.keywords.some(keyword => text.includes(keyword));
+};
+
+// Latitude difference alone rules out most pairs before the great-circle distance is needed
+const isNear = (point: GeoPoint, samples: GeoPoint[]) =>
+  samples.some(other =>
+    Math.abs(other[1] - point[1]) <= NEAR_DEG && d3.geoDistance(point, other) * DEGREES <= NEAR_DEG
+  );
+
+const runsAlong = (legSamples: GeoPoint[], samples: GeoPoint[]) => {
+  const near = legSamples.filter(point => isNear(point, samples)).length;
+  return near * SAMPLE_DEG >= MIN_SHARED_DEG && near / legSamples.length >= MIN_SHARED_SHARE;
+};
+
+/** Ids of the trade routes a journey follows, by routeSummary or by the geographic path of its legs. */
+export function findTradeRoutes(legs: GeoPoint[][], routeSummary?: string): string[] {
+  const legSamples = legs.map(samplePath);
+
+  return TRADE_ROUTES.features
+    .filter(({ properties: route }) => {
+      if (routeSummary && mentionsRoute(routeSummary, route)) return true;
+      const samples = routeSamples.get(route.id) ?? [];
+      return legSamples.some(leg => runsAlong(leg, samples));
+    })
+    .map(feature => feature.properties.id);
+}